@@ -0,0 +1,73 @@
+// Per-architecture default config fragments. x86_64 uses default-config.ts as
+// is; the other architectures start from the arch-independent part of it (see
+// KernelDefaultConfigs in config.ts) and layer these on top. Only list what the
+// architecture needs to boot as a VM guest; `make olddefconfig` fills the rest.
+
+export const arm64 = {
+  description: "arm64 guest (GICv3, PL011 console, PCIe host, EFI)",
+  fragment: `CONFIG_ARM64=y
+CONFIG_ARM64_4K_PAGES=y
+CONFIG_ARM64_VA_BITS_48=y
+CONFIG_SMP=y
+CONFIG_NR_CPUS=64
+CONFIG_ARM_GIC=y
+CONFIG_ARM_GIC_V3=y
+CONFIG_ARM_GIC_V3_ITS=y
+CONFIG_ARM_ARCH_TIMER=y
+CONFIG_ARM_PSCI_FW=y
+CONFIG_OF=y
+CONFIG_PCI=y
+CONFIG_PCI_HOST_GENERIC=y
+CONFIG_EFI=y
+CONFIG_RANDOMIZE_BASE=y
+CONFIG_SERIAL_AMBA_PL011=y
+CONFIG_SERIAL_AMBA_PL011_CONSOLE=y
+CONFIG_SERIAL_8250=y
+CONFIG_SERIAL_8250_CONSOLE=y
+CONFIG_SERIAL_OF_PLATFORM=y
+CONFIG_RTC_CLASS=y
+CONFIG_RTC_DRV_PL031=y
+CONFIG_GPIO_PL061=y
+CONFIG_KEYBOARD_GPIO=y
+`,
+};
+
+export const riscv64 = {
+  description: "riscv64 guest (RV64GC, SBI console, PCIe host, EFI)",
+  fragment: `CONFIG_RISCV=y
+CONFIG_64BIT=y
+CONFIG_ARCH_RV64I=y
+CONFIG_RISCV_ISA_C=y
+CONFIG_FPU=y
+CONFIG_SMP=y
+CONFIG_NR_CPUS=64
+CONFIG_RISCV_SBI=y
+CONFIG_RISCV_SBI_V01=y
+CONFIG_HVC_RISCV_SBI=y
+CONFIG_SERIAL_EARLYCON_RISCV_SBI=y
+CONFIG_OF=y
+CONFIG_PCI=y
+CONFIG_PCI_HOST_GENERIC=y
+CONFIG_EFI=y
+CONFIG_SERIAL_8250=y
+CONFIG_SERIAL_8250_CONSOLE=y
+CONFIG_SERIAL_OF_PLATFORM=y
+CONFIG_RTC_CLASS=y
+CONFIG_RTC_DRV_GOLDFISH=y
+CONFIG_POWER_RESET=y
+CONFIG_POWER_RESET_SYSCON=y
+CONFIG_POWER_RESET_SYSCON_POWEROFF=y
+`,
+};
+
+// Paravirtualized guest support of the VM guest profiles (firecracker,
+// cloud-hypervisor, qemu-virt). KVM_GUEST is x86-only; arm64 has PARAVIRT for
+// steal time accounting; riscv64 only gained PARAVIRT in 6.8, so it gets none.
+export const kvmGuest = {
+  x86_64: `CONFIG_HYPERVISOR_GUEST=y
+CONFIG_PARAVIRT=y
+CONFIG_KVM_GUEST=y
+`,
+  arm64: `CONFIG_PARAVIRT=y
+`,
+};
@@ -1,70 +1,39 @@
 #!/usr/bin/env -S deno run --allow-run --allow-read --allow-write --allow-env --allow-net
 import _ from "@es-toolkit/es-toolkit/compat";
 import chalk from "chalk";
-import cfg from "./default-config.ts";
-
+import { buildKernel } from "./builder.ts";
+import {
+  type ConfigProvenance,
+  explainSymbol,
+  formatSymbolExplanation,
+  KernelConfigParser,
+} from "./config.ts";
+import { BuildError, capture, fileExists } from "./exec.ts";
+import { kconfigArch, KconfigReader } from "./kconfig.ts";
+import { loadManifest, resolveManifestTargets } from "./manifest.ts";
+import type { BuildOptions, UImageOptions } from "./options.ts";
+import {
+  defaultCacheDir,
+  formatCacheEntries,
+  listCache,
+  pruneCache,
+} from "./source-cache.ts";
+
+export * from "./builder.ts";
+export * from "./ccache.ts";
 export * from "./config.ts";
-
-async function run(cmd: string[]): Promise<void> {
-  console.log(`Running: ${chalk.green(cmd.join(" "))}`);
-  const process = new Deno.Command(cmd[0], {
-    args: cmd.slice(1),
-    stdout: "inherit",
-    stderr: "inherit",
-  });
-  const { code } = await process.output();
-  if (code !== 0) {
-    Deno.exit(code);
-  }
-}
-
-async function runQuiet(cmd: string[]): Promise<boolean> {
-  const process = new Deno.Command(cmd[0], {
-    args: cmd.slice(1),
-    stdout: "null",
-    stderr: "null",
-  });
-  const { code } = await process.output();
-  return code === 0;
-}
-
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await Deno.stat(path);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-async function getMachineArch(): Promise<string> {
-  const process = new Deno.Command("uname", {
-    args: ["-m"],
-    stdout: "piped",
-  });
-  const { stdout } = await process.output();
-  return new TextDecoder().decode(stdout).trim();
-}
-
-async function getNproc(): Promise<string> {
-  const process = new Deno.Command("nproc", {
-    stdout: "piped",
-  });
-  const { stdout } = await process.output();
-  return new TextDecoder().decode(stdout).trim();
-}
-
-async function capture(cmd: string[]): Promise<string> {
-  const process = new Deno.Command(cmd[0], {
-    args: cmd.slice(1),
-    stdout: "piped",
-    stderr: "null",
-  });
-  const { stdout } = await process.output();
-  return new TextDecoder().decode(stdout).trim();
-}
-
-const rawArgs = Deno.args;
+export * from "./drift.ts";
+export * from "./fingerprint.ts";
+export * from "./kconfig.ts";
+export * from "./manifest.ts";
+export * from "./options.ts";
+export * from "./patches.ts";
+export * from "./releases.ts";
+export * from "./source-cache.ts";
+export * from "./tarball.ts";
+export * from "./toolchain.ts";
+export * from "./version.ts";
+export { BuildError } from "./exec.ts";
 
 // Parse optional flags:
 //   --repo <url>          clone from a custom git repository instead of linux-stable
@@ -75,6 +44,34 @@ const rawArgs = Deno.args;
 //                         conflicts (the default only fills gaps). <src> is an
 //                         http(s) URL or a file resolved at the kernel tree root
 //                         (e.g. .config or config-6.6.98-sun60iw2).
+//   --arch <arch>         target architecture: x86_64, arm64 or riscv64
+//                         (default: this machine's). Picks the default config
+//                         (arm64 and riscv64 share the arch-independent
+//                         symbols of default-config.ts, see
+//                         KernelDefaultConfigs) and, when it differs from this
+//                         machine, cross-compiles with ARCH=<arch>. Artifacts
+//                         are named after it (vmlinux-<ver>.aarch64).
+//   --cross-compile <prefix>
+//                         cross toolchain prefix passed as CROSS_COMPILE to
+//                         every make (default for cross builds: the Debian
+//                         prefix, e.g. aarch64-linux-gnu-, installed with
+//                         apt). --initrd is skipped when cross-compiling.
+//   --toolchain <name>    gcc (default) or llvm: build with clang/lld by
+//                         passing LLVM=1 to every make (clang, lld and llvm
+//                         are installed with apt). LLVM builds need no
+//                         --cross-compile prefix.
+//     --llvm-version <n>  use the versioned tools (LLVM=-<n>, clang-<n>)
+//     --llvm-ias / --no-llvm-ias
+//                         force LLVM_IAS=1/0 (clang's integrated assembler
+//                         vs. GNU as)
+//   --ccache              compile through ccache: CC="ccache <compiler>" (the
+//                         compiler CROSS_COMPILE/LLVM would use) is passed to
+//                         every make, ccache is installed with apt, and the
+//                         build's hits, misses and hit rate are printed at
+//                         the end.
+//     --ccache-dir <dir>  cache directory (implies --ccache; default:
+//                         $CCACHE_DIR, else .ccache in the working directory,
+//                         i.e. the /app volume in Docker)
 //   --initrd              also generate an initrd (initrd.img) and, on arm64,
 //                         a U-Boot uInitrd alongside the kernel.
 //   --modules             build the loadable modules and archive the staged
@@ -90,574 +87,457 @@ const rawArgs = Deno.args;
 //     --uimage-arch <a>     mkimage -A architecture (default: arm)
 //     --uimage-os <o>       mkimage -O os          (default: linux)
 //     --uimage-type <t>     mkimage -T type        (default: kernel)
-//     --uimage-comp <c>     mkimage -C compression (default: none; gzip compresses Image)
+//     --uimage-comp <c>     mkimage -C compression (default: none; gzip compresses Image;
+//                           one of none, gzip, bzip2, lzma, lzo, lz4, zstd)
 //     --uimage-load <addr>  mkimage -a load address (default: 0x41000000)
 //     --uimage-entry <addr> mkimage -e entry point  (default: 0x41000000)
 //     --uimage-name <name>  mkimage -n image name   (default: "Linux <kernelrelease>")
+//   --fragment <src>      extra config fragment (URL or file resolved at the
+//                         kernel tree root). Repeatable; precedence is, lowest
+//                         first: default/board config, --merge-config, each
+//                         --fragment in order, then --set/--unset/--module.
+//                         The source of every symbol is written to
+//                         config-provenance.json.
+//   --profile <name>      layer a built-in config profile over the base
+//                         config (firecracker, cloud-hypervisor, qemu-virt,
+//                         minimal, debug, container-host; see
+//                         KernelConfigProfiles in config.ts). Repeatable;
+//                         profiles apply in order, right above the default or
+//                         board config and below --merge-config.
+//   --set CONFIG_FOO=<v>  force a symbol to a value (y, m, a number or a
+//                         string) on top of the default/board config, before
+//                         `make olddefconfig`. Repeatable.
+//   --unset CONFIG_BAR    force a symbol off ("is not set"). Repeatable.
+//   --module CONFIG_BAZ   build a symbol as a module (=m). Repeatable.
+//                         Overrides Kconfig drops (unmet dependencies) are
+//                         reported after olddefconfig.
+//   --strict-config       fail when a symbol requested as =y is dropped by
+//                         `make olddefconfig`. The requested vs. effective
+//                         drift is always written to config-drift.json.
+//   --save-defconfig <file>
+//                         after olddefconfig, write the final config reduced
+//                         to the symbols that differ from their Kconfig
+//                         defaults with `make savedefconfig`, relative to
+//                         the working directory.
+//   --out-dir <dir>       build out of tree with kbuild's O=<dir> (relative
+//                         to the working directory): .config, objects,
+//                         config-*.json and artifacts land there, so several
+//                         configs or arches share one linux-stable checkout.
+//                         Ref changes `make mrproper` only the source tree,
+//                         keeping the object tree for incremental rebuilds.
+//   --cache               check the source out of the source cache: one bare
+//                         mirror per repository and one git worktree per ref
+//                         (see source-cache.ts), instead of linux-stable.
+//                         Artifacts land in the worktree unless --out-dir.
+//   --cache-dir <dir>     source cache root (implies --cache; default:
+//                         $VMLINUX_BUILDER_CACHE_DIR, else
+//                         ~/.cache/vmlinux-builder)
+//   --source <git|tarball>
+//                         where the sources come from (default: git).
+//                         tarball downloads linux-<version>.tar.xz from
+//                         kernel.org, checks it against the release's
+//                         sha256sums.asc and extracts it to linux-<version>
+//                         (aliases such as 6.1.y resolve to a release from
+//                         the tarball directory listings first).
+//                         With --cache the download is kept under
+//                         <cache>/tarballs.
+//     --tarball <src>     local tarball, tarball URL, or mirror base URL laid
+//                         out like https://cdn.kernel.org/pub/linux/kernel
+//     --tarball-sha256 <hex>
+//                         expected sha256 (local tarballs need it or a
+//                         signature)
+//     --tarball-signature <src>
+//                         linux-<version>.tar.sign (file or URL), checked
+//                         with `gpg --verify` against the uncompressed tar
+//                         (.tar.xz tarballs only)
+//   --force               build even when the inputs (commit, .config,
+//                         toolchain, patches, options) match the previous
+//                         build of the object tree, and clean the source tree
+//                         as if they had changed. Without it an unchanged
+//                         build reuses its artifacts (build-fingerprint.json)
+//                         and a config-only change rebuilds incrementally.
+//   --patch <file|dir>    apply a patch, `git format-patch` mbox or patch
+//                         directory onto the checked-out tree before it is
+//                         configured (see patches.ts). A directory applies
+//                         the patches its quilt `series` file lists, else its
+//                         *.patch/*.diff/*.mbox files by name. Repeatable; the
+//                         first patch that fails stops the build with the
+//                         hunk that did not apply. Applied patches are listed
+//                         in patches.json.
+//   --manifest <file>     build the targets described in a TOML/JSON/YAML
+//                         manifest (see manifest.ts); flags given alongside
+//                         override the manifest's values.
+//   --target <name>       only build this manifest target (default: all)
+//
+// Subcommands:
+//   cache list            list the worktrees of the source cache
+//   cache prune [ref...]  remove the given refs' worktrees
+//     --older-than <days> also remove worktrees unused for that many days
+//     --all               remove every worktree (mirrors are kept)
+//     --cache-dir <dir>   source cache root (default as above)
+//   why CONFIG_FOO        explain a symbol's value from the Kconfig of the
+//                         checked-out tree: dependency chain, selects forcing
+//                         it on, unmet `depends on` keeping it off, and the
+//                         fragment line that set it (config-provenance.json).
+//     --src <dir>         kernel tree (default: linux-stable)
+//     --out-dir <dir>     object tree of an --out-dir build (default: <src>)
+//     --config <file>     config to explain (default: <out-dir>/.config)
+//     --arch <arch>       Kconfig arch (default: the config header's, else
+//                         this machine's)
+//     --json              print the explanation as JSON
 // Anything not matching a flag is treated as the positional kernel version.
-let repoInput: string | undefined;
-let branchInput: string | undefined;
-let versionLabel: string | undefined;
-let mergeConfigInput: string | undefined;
-let defconfigInput: string | undefined;
-let genInitrd = false;
-let genModules = false;
-let genUimage = false;
-let uimageArch = "arm";
-let uimageOs = "linux";
-let uimageType = "kernel";
-let uimageComp = "none";
-let uimageLoad = "0x41000000";
-let uimageEntry = "0x41000000";
-let uimageName: string | undefined;
-const positional: string[] = [];
-
-for (let i = 0; i < rawArgs.length; i++) {
-  const arg = rawArgs[i];
-
-  const takeValue = (name: string): string => {
-    const eq = arg.indexOf("=");
-    if (eq !== -1) return arg.slice(eq + 1);
-    const next = rawArgs[i + 1];
-    if (next === undefined) {
-      console.log(chalk.yellow(`Error: missing value for ${name}`));
-      Deno.exit(1);
-    }
-    i++;
-    return next;
-  };
-
-  if (arg === "--repo" || arg.startsWith("--repo=")) {
-    repoInput = takeValue("--repo");
-  } else if (
-    arg === "--branch" ||
-    arg.startsWith("--branch=") ||
-    arg === "--ref" ||
-    arg.startsWith("--ref=")
-  ) {
-    branchInput = takeValue("--branch");
-  } else if (arg === "--version" || arg.startsWith("--version=")) {
-    versionLabel = takeValue("--version");
-  } else if (
-    arg === "--merge-config" ||
-    arg.startsWith("--merge-config=") ||
-    arg === "--config" ||
-    arg.startsWith("--config=")
-  ) {
-    mergeConfigInput = takeValue("--merge-config");
-  } else if (arg === "--defconfig" || arg.startsWith("--defconfig=")) {
-    defconfigInput = takeValue("--defconfig");
-  } else if (arg === "--initrd") {
-    genInitrd = true;
-  } else if (arg === "--modules") {
-    genModules = true;
-  } else if (arg === "--uimage") {
-    genUimage = true;
-  } else if (arg === "--uimage-arch" || arg.startsWith("--uimage-arch=")) {
-    uimageArch = takeValue("--uimage-arch");
-  } else if (arg === "--uimage-os" || arg.startsWith("--uimage-os=")) {
-    uimageOs = takeValue("--uimage-os");
-  } else if (arg === "--uimage-type" || arg.startsWith("--uimage-type=")) {
-    uimageType = takeValue("--uimage-type");
-  } else if (arg === "--uimage-comp" || arg.startsWith("--uimage-comp=")) {
-    uimageComp = takeValue("--uimage-comp");
-  } else if (arg === "--uimage-load" || arg.startsWith("--uimage-load=")) {
-    uimageLoad = takeValue("--uimage-load");
-  } else if (arg === "--uimage-entry" || arg.startsWith("--uimage-entry=")) {
-    uimageEntry = takeValue("--uimage-entry");
-  } else if (arg === "--uimage-name" || arg.startsWith("--uimage-name=")) {
-    uimageName = takeValue("--uimage-name");
-  } else {
-    positional.push(arg);
-  }
+// Series aliases (latest, longterm, 6.1, 6.1.y) are resolved to the newest
+// matching stable tag with `git ls-remote`, or from the tarball directories
+// with --source tarball (see releases.ts).
+// All options are validated against BuildOptionsSchema (options.ts) and every
+// problem is reported at once, before anything is cloned or installed.
+interface CliArgs {
+  options: BuildOptions;
+  manifest?: string;
+  target?: string;
 }
 
-// Default upstream stable tree; overridden by --repo.
-let REPO_URL =
-  "git://git.kernel.org/pub/scm/linux/kernel/git/stable/linux-stable.git";
-let REF: string;
-let VERSION: string;
-
-if (repoInput) {
-  // Custom repository + branch/tag (e.g. an OrangePi/BSP kernel fork).
-  if (!branchInput) {
-    console.log(
-      chalk.yellow("Error: --branch is required when --repo is provided")
-    );
-    console.log(
-      "Example: ./build.ts --repo https://github.com/tsirysndr/linux-orangepi --branch orange-pi-6.6-sun60iw2"
-    );
-    Deno.exit(1);
+function parseArgs(rawArgs: string[]): CliArgs {
+  const args: CliArgs = { options: {} };
+  const options = args.options;
+  let genUimage = false;
+  const uimage: UImageOptions = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < rawArgs.length; i++) {
+    const arg = rawArgs[i];
+
+    const takeValue = (name: string): string => {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) return arg.slice(eq + 1);
+      const next = rawArgs[i + 1];
+      if (next === undefined) {
+        throw new BuildError(`missing value for ${name}`);
+      }
+      i++;
+      return next;
+    };
+
+    if (arg === "--repo" || arg.startsWith("--repo=")) {
+      options.repo = takeValue("--repo");
+    } else if (
+      arg === "--branch" ||
+      arg.startsWith("--branch=") ||
+      arg === "--ref" ||
+      arg.startsWith("--ref=")
+    ) {
+      options.branch = takeValue("--branch");
+    } else if (arg === "--version" || arg.startsWith("--version=")) {
+      options.label = takeValue("--version");
+    } else if (
+      arg === "--merge-config" ||
+      arg.startsWith("--merge-config=") ||
+      arg === "--config" ||
+      arg.startsWith("--config=")
+    ) {
+      options.mergeConfig = takeValue("--merge-config");
+    } else if (arg === "--arch" || arg.startsWith("--arch=")) {
+      options.arch = takeValue("--arch") as BuildOptions["arch"];
+    } else if (
+      arg === "--cross-compile" ||
+      arg.startsWith("--cross-compile=")
+    ) {
+      options.crossCompile = takeValue("--cross-compile");
+    } else if (arg === "--toolchain" || arg.startsWith("--toolchain=")) {
+      options.toolchain = takeValue("--toolchain") as BuildOptions["toolchain"];
+    } else if (arg === "--llvm-version" || arg.startsWith("--llvm-version=")) {
+      options.llvmVersion = takeValue("--llvm-version");
+    } else if (arg === "--llvm-ias") {
+      options.llvmIas = true;
+    } else if (arg === "--no-llvm-ias") {
+      options.llvmIas = false;
+    } else if (arg === "--ccache") {
+      options.ccache = true;
+    } else if (arg === "--ccache-dir" || arg.startsWith("--ccache-dir=")) {
+      options.ccache = true;
+      options.ccacheDir = takeValue("--ccache-dir");
+    } else if (arg === "--defconfig" || arg.startsWith("--defconfig=")) {
+      options.defconfig = takeValue("--defconfig");
+    } else if (arg === "--fragment" || arg.startsWith("--fragment=")) {
+      options.fragments = [
+        ...(options.fragments ?? []),
+        takeValue("--fragment"),
+      ];
+    } else if (arg === "--profile" || arg.startsWith("--profile=")) {
+      options.profiles = [...(options.profiles ?? []), takeValue("--profile")];
+    } else if (arg === "--set" || arg.startsWith("--set=")) {
+      const assignment = takeValue("--set");
+      const eq = assignment.indexOf("=");
+      if (eq === -1) {
+        throw new BuildError(
+          `--set expects CONFIG_FOO=<value>, got '${assignment}'`
+        );
+      }
+      options.config = {
+        ...options.config,
+        [assignment.slice(0, eq)]: assignment
+          .slice(eq + 1)
+          .replace(/^"(.*)"$/, "$1"),
+      };
+    } else if (arg === "--unset" || arg.startsWith("--unset=")) {
+      options.config = { ...options.config, [takeValue("--unset")]: false };
+    } else if (arg === "--module" || arg.startsWith("--module=")) {
+      options.config = { ...options.config, [takeValue("--module")]: "m" };
+    } else if (arg === "--manifest" || arg.startsWith("--manifest=")) {
+      args.manifest = takeValue("--manifest");
+    } else if (arg === "--target" || arg.startsWith("--target=")) {
+      args.target = takeValue("--target");
+    } else if (
+      arg === "--save-defconfig" ||
+      arg.startsWith("--save-defconfig=")
+    ) {
+      options.saveDefconfig = takeValue("--save-defconfig");
+    } else if (arg === "--out-dir" || arg.startsWith("--out-dir=")) {
+      options.outDir = takeValue("--out-dir");
+    } else if (arg === "--cache") {
+      options.cacheDir ??= defaultCacheDir();
+    } else if (arg === "--cache-dir" || arg.startsWith("--cache-dir=")) {
+      options.cacheDir = takeValue("--cache-dir");
+    } else if (arg === "--source" || arg.startsWith("--source=")) {
+      options.source = takeValue("--source") as BuildOptions["source"];
+    } else if (arg === "--tarball" || arg.startsWith("--tarball=")) {
+      options.tarball = takeValue("--tarball");
+    } else if (
+      arg === "--tarball-sha256" ||
+      arg.startsWith("--tarball-sha256=")
+    ) {
+      options.tarballSha256 = takeValue("--tarball-sha256");
+    } else if (
+      arg === "--tarball-signature" ||
+      arg.startsWith("--tarball-signature=")
+    ) {
+      options.tarballSignature = takeValue("--tarball-signature");
+    } else if (arg === "--force") {
+      options.force = true;
+    } else if (arg === "--patch" || arg.startsWith("--patch=")) {
+      options.patches = [...(options.patches ?? []), takeValue("--patch")];
+    } else if (arg === "--strict-config") {
+      options.strictConfig = true;
+    } else if (arg === "--initrd") {
+      options.initrd = true;
+    } else if (arg === "--modules") {
+      options.modules = true;
+    } else if (arg === "--uimage") {
+      genUimage = true;
+    } else if (arg === "--uimage-arch" || arg.startsWith("--uimage-arch=")) {
+      uimage.arch = takeValue("--uimage-arch");
+    } else if (arg === "--uimage-os" || arg.startsWith("--uimage-os=")) {
+      uimage.os = takeValue("--uimage-os");
+    } else if (arg === "--uimage-type" || arg.startsWith("--uimage-type=")) {
+      uimage.type = takeValue("--uimage-type");
+    } else if (arg === "--uimage-comp" || arg.startsWith("--uimage-comp=")) {
+      uimage.comp = takeValue("--uimage-comp") as UImageOptions["comp"];
+    } else if (arg === "--uimage-load" || arg.startsWith("--uimage-load=")) {
+      uimage.load = takeValue("--uimage-load");
+    } else if (arg === "--uimage-entry" || arg.startsWith("--uimage-entry=")) {
+      uimage.entry = takeValue("--uimage-entry");
+    } else if (arg === "--uimage-name" || arg.startsWith("--uimage-name=")) {
+      uimage.name = takeValue("--uimage-name");
+    } else {
+      positional.push(arg);
+    }
   }
 
-  REPO_URL = repoInput;
-  REF = branchInput;
-  // Name the artifact from --version, else the positional arg, else a
-  // filesystem-safe form of the branch name.
-  VERSION =
-    versionLabel ??
-    positional[0] ??
-    branchInput.replace(/[^A-Za-z0-9._-]+/g, "-");
-
-  console.log(
-    `Building vmlinux from ${chalk.cyan(REPO_URL)} @ ${chalk.cyan(REF)}`
-  );
-} else {
-  // Default path: build a version from the upstream linux-stable tree.
-  if (positional.length < 1) {
-    console.log(chalk.yellow(`Usage: $0 <kernel-version>{.y|.Z}`));
-    console.log("Example: ./build.ts 6.1 | 6.1.12 | 6.1.y | v6.1.12");
-    console.log(
-      "Custom repo: ./build.ts --repo <git-url> --branch <branch> [--version <label>]"
-    );
-    Deno.exit(1);
+  options.version = positional[0];
+  if (genUimage) {
+    options.uimage = uimage;
   }
+  return args;
+}
 
-  const INPUT = positional[0];
-  const NUM = INPUT.startsWith("v") ? INPUT.slice(1) : INPUT; // normalize by stripping optional leading 'v'
-
-  // Validate: X.Y, X.Y.Z, or X.Y.y
-  const versionRegex = /^[0-9]+\.[0-9]+(\.(y|[0-9]+))?$/;
-  if (!versionRegex.test(NUM)) {
-    console.log(
-      chalk.yellow(
-        `Error: Invalid kernel version '${INPUT}'. Expected X.Y, X.Y.Z, or X.Y.y`
-      )
-    );
-    console.log("Examples: 6.1 | 6.1.12 | 6.1.y | v6.1.12");
-    Deno.exit(1);
+/**
+ * `why CONFIG_FOO`: explain a symbol of an existing config
+ */
+async function why(rawArgs: string[]): Promise<void> {
+  let srcDir = "linux-stable";
+  let outDir: string | undefined;
+  let configPath: string | undefined;
+  let arch: string | undefined;
+  let json = false;
+  const symbols: string[] = [];
+
+  for (let i = 0; i < rawArgs.length; i++) {
+    const arg = rawArgs[i];
+    const takeValue = (name: string): string => {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) return arg.slice(eq + 1);
+      const next = rawArgs[++i];
+      if (next === undefined) {
+        throw new BuildError(`missing value for ${name}`);
+      }
+      return next;
+    };
+
+    if (arg === "--src" || arg.startsWith("--src=")) {
+      srcDir = takeValue("--src");
+    } else if (arg === "--out-dir" || arg.startsWith("--out-dir=")) {
+      outDir = takeValue("--out-dir");
+    } else if (arg === "--config" || arg.startsWith("--config=")) {
+      configPath = takeValue("--config");
+    } else if (arg === "--arch" || arg.startsWith("--arch=")) {
+      arch = takeValue("--arch");
+    } else if (arg === "--json") {
+      json = true;
+    } else {
+      symbols.push(arg);
+    }
   }
-
-  console.log(`Building vmlinux for Linux kernel ${chalk.cyan(NUM)}`);
-
-  // Decide ref: maintenance branch vs tag
-  if (NUM.endsWith(".y")) {
-    REF = `linux-${NUM}`; // e.g. linux-6.16.y
-    VERSION = NUM.slice(0, -2); // e.g. 6.16
-  } else {
-    REF = `v${NUM}`; // e.g. v6.16.2 (ensure leading v)
-    VERSION = NUM; // e.g. 6.16.2 (no leading v)
+  if (symbols.length === 0) {
+    throw new BuildError("usage: ./build.ts why CONFIG_FOO [--src <dir>]");
   }
-}
 
-if (defconfigInput) {
-  console.log(
-    chalk.magenta(
-      `Board defconfig detected: ${chalk.cyan(
-        defconfigInput
-      )} — it will be used as the base config (board wins) with the default config layered underneath.`
-    )
-  );
-}
-
-if (mergeConfigInput) {
-  console.log(
-    chalk.magenta(
-      `Merge config detected: ${chalk.cyan(
-        mergeConfigInput
-      )} — it will be merged with the default config (provided config overrides on conflicts).`
-    )
-  );
-}
-
-const hasAptGet = await runQuiet(["which", "apt-get"]);
-const hasSudo = await runQuiet(["which", "sudo"]);
-if (hasAptGet) {
-  try {
-    await run([
-      ..._.compact([hasSudo ? "sudo" : null]),
-      "apt-get",
-      "install",
-      "-y",
-      "git",
-      "build-essential",
-      "flex",
-      "bison",
-      "libncurses5-dev",
-      "libssl-dev",
-      "gcc",
-      "bc",
-      "libelf-dev",
-      "pahole",
-    ]);
-  } catch {
-    // Ignore errors
+  outDir ??= srcDir;
+  configPath ??= `${outDir}/.config`;
+  if (!(await fileExists(configPath))) {
+    throw new BuildError(`config '${configPath}' not found`);
   }
-}
-
-if (!(await fileExists("linux-stable"))) {
-  // Clone directly at the desired ref (branch or tag)
-  await run([
-    "git",
-    "clone",
-    "--depth=1",
-    "--branch",
-    REF,
-    REPO_URL,
-    "linux-stable",
-  ]);
-} else {
-  // Shallow-fetch the specific ref (works for both branches and tags)
+  const config = KernelConfigParser.parse(await Deno.readTextFile(configPath));
+  arch ??= config.arch ?? kconfigArch(await capture(["uname", "-m"]));
+  let kconfig;
   try {
-    await run([
-      "git",
-      "-C",
-      "linux-stable",
-      "fetch",
-      "--depth=1",
-      "origin",
-      REF,
-    ]);
-  } catch {
-    await run(["git", "-C", "linux-stable", "fetch", "origin", REF]);
+    kconfig = await KconfigReader.read(srcDir, { arch });
+  } catch (error) {
+    throw new BuildError(`Failed to read Kconfig in '${srcDir}': ${error}`);
   }
 
-  Deno.chdir("linux-stable");
-
-  await run(["rm", "-rf", "Documentation/Kbuild"]);
-  await run(["make", "mrproper"]);
-
-  await run(["git", "checkout", "-f", REF]);
-
-  Deno.chdir("..");
-}
-
-if (defconfigInput) {
-  // Board/BSP path: the board defconfig is the base and WINS on conflicts,
-  // our default config is layered underneath to fill in extras.
-  Deno.chdir("linux-stable");
+  const provenancePath = `${outDir}/config-provenance.json`;
+  const provenance: Record<string, ConfigProvenance> | undefined =
+    (await fileExists(provenancePath))
+      ? JSON.parse(await Deno.readTextFile(provenancePath))
+      : undefined;
 
-  console.log(
-    `Using board defconfig ${chalk.cyan(
-      defconfigInput
-    )} as base (board essentials win); layering default config underneath.`
+  const explanations = symbols.map((key) =>
+    explainSymbol(config, key, { kconfig, provenance })
   );
-
-  // Generate the board's full .config (e.g. `make sun60iw2_defconfig`).
-  await run(["make", defconfigInput]);
-  await Deno.copyFile(".config", "board.config");
-
-  // Write our default config as a fragment and merge with the board config
-  // LAST, so the board overrides our defaults on any conflicting symbol.
-  await Deno.writeTextFile("default.config", cfg);
-  await run([
-    "scripts/kconfig/merge_config.sh",
-    "-m",
-    "default.config",
-    "board.config",
-  ]);
-
-  // Older BSP trees often fail to build with modern GCC when warnings are
-  // fatal; force CONFIG_WERROR off (appended last so olddefconfig honors it).
-  // Any board-specific symbols (e.g. CONFIG_PM_DEVFREQ for the Allwinner DMC
-  // devfreq driver) belong in the board's own defconfig, not here.
-  const merged = await Deno.readTextFile(".config");
-  await Deno.writeTextFile(".config", `${merged}\n# CONFIG_WERROR is not set\n`);
-
-  // Normalize against this tree's Kconfig.
-  await run(["make", "olddefconfig"]);
-} else if (mergeConfigInput) {
-  // Merge an existing config with the default config. We simply concatenate,
-  // putting the provided config LAST so it overrides the default on conflicting
-  // symbols (kconfig keeps the last assignment when reading). The default only
-  // fills in symbols the provided config doesn't set.
-  Deno.chdir("linux-stable");
-
-  let existing: string;
-  if (/^https?:\/\//i.test(mergeConfigInput)) {
-    console.log(
-      `Fetching existing config from ${chalk.cyan(mergeConfigInput)}`
-    );
-    const resp = await fetch(mergeConfigInput);
-    if (!resp.ok) {
-      console.log(
-        chalk.yellow(
-          `Error: failed to fetch config (${resp.status} ${resp.statusText})`
-        )
-      );
-      Deno.exit(1);
-    }
-    existing = await resp.text();
-  } else {
-    // Resolved at the kernel tree root (cwd is linux-stable), e.g. ".config"
-    // or "config-6.6.98-sun60iw2".
-    console.log(
-      `Merging existing config ${chalk.cyan(mergeConfigInput)} with default config (provided config overrides)`
-    );
-    existing = await Deno.readTextFile(mergeConfigInput);
-  }
-
-  // Provided config LAST so it wins over the default on conflicting symbols.
-  await Deno.writeTextFile(".config", `${cfg}\n${existing}\n`);
-
-  // Normalize the merged config against this tree's Kconfig (fills in new
-  // symbols with their defaults, drops symbols that don't apply).
-  await run(["make", "olddefconfig"]);
-} else {
-  if (!(await Deno.stat(".config").catch(() => false))) {
+  if (json) {
     console.log(
-      chalk.yellow(
-        "No .config file found in the current directory. Using default configuration."
+      JSON.stringify(
+        explanations.length === 1 ? explanations[0] : explanations,
+        null,
+        2
       )
     );
-    await Deno.writeTextFile(".config", cfg);
-  }
-
-  Deno.chdir("linux-stable");
-
-  await Deno.copyFile("../.config", ".config");
-}
-
-await run(["make", "prepare"]);
-
-const nproc = await getNproc();
-const makeProcess = new Deno.Command("make", {
-  args: ["vmlinux", `-j${nproc}`],
-  stdin: "piped",
-  stdout: "inherit",
-  stderr: "inherit",
-});
-
-// Pipe empty input (equivalent to yes '' | make ... < /dev/null)
-const yesProcess = new Deno.Command("yes", {
-  args: [""],
-  stdout: "piped",
-});
-
-const yes = yesProcess.spawn();
-const make = makeProcess.spawn();
-
-yes.stdout.pipeTo(make.stdin).catch((err) => {
-  if (!err.message?.includes("Broken pipe")) {
-    throw err;
+  } else {
+    console.log(explanations.map(formatSymbolExplanation).join("\n\n"));
   }
-});
-
-const { code: makeCode } = await make.status;
-
-if (makeCode !== 0) {
-  Deno.exit(makeCode);
-}
-
-// Rename vmlinux
-const arch = await getMachineArch();
-const VMLINUX = `vmlinux-${VERSION}`;
-await Deno.rename("vmlinux", `${VMLINUX}.${arch}`);
-
-console.log(chalk.green("vmlinux built successfully!"));
-const cwd = Deno.cwd();
-console.log(
-  `You can find the vmlinux file in ${chalk.cyan(`${cwd}/${VMLINUX}.${arch}`)}`
-);
-
-// On arm64, also emit the raw bootable Image (arch/arm64/boot/Image). This is
-// the objcopy'd binary the board actually boots (what `/boot/vmlinux-*` is on
-// an OrangePi), as opposed to the large ELF `vmlinux` above.
-if (arch === "aarch64" || arch === "arm64") {
-  await run(["make", "Image", `-j${nproc}`]);
-
-  const IMAGE = `Image-${VERSION}.${arch}`;
-  await Deno.copyFile("arch/arm64/boot/Image", IMAGE);
-
-  const imageSum = await capture(["sha256sum", IMAGE]);
-  await Deno.writeTextFile(`${IMAGE}.sha256`, `${imageSum}\n`);
-
-  console.log(
-    chalk.green(`boot Image built: ${chalk.cyan(`${cwd}/${IMAGE}`)}`)
-  );
 }
 
-// Optionally build the arm64 boot Image and wrap it as a U-Boot uImage.
-// All mkimage parameters come from the --uimage-* flags (with defaults).
-if (genUimage) {
-  if (arch === "aarch64" || arch === "arm64") {
-    console.log(chalk.magenta("Generating uImage..."));
-
-    // mkimage lives in u-boot-tools.
-    if (hasAptGet) {
-      try {
-        await run([
-          ..._.compact([hasSudo ? "sudo" : null]),
-          "apt-get",
-          "install",
-          "-y",
-          "u-boot-tools",
-        ]);
-      } catch {
-        // Ignore; mkimage below will surface a clearer failure.
+/**
+ * `cache list` / `cache prune`: manage the source cache
+ */
+async function cache(rawArgs: string[]): Promise<void> {
+  const [command, ...rest] = rawArgs;
+  let cacheDir = defaultCacheDir();
+  let olderThanDays: number | undefined;
+  let all = false;
+  const refs: string[] = [];
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const takeValue = (name: string): string => {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) return arg.slice(eq + 1);
+      const next = rest[++i];
+      if (next === undefined) {
+        throw new BuildError(`missing value for ${name}`);
+      }
+      return next;
+    };
+
+    if (arg === "--cache-dir" || arg.startsWith("--cache-dir=")) {
+      cacheDir = takeValue("--cache-dir");
+    } else if (arg === "--older-than" || arg.startsWith("--older-than=")) {
+      olderThanDays = Number(takeValue("--older-than"));
+      if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+        throw new BuildError("--older-than expects a number of days");
       }
+    } else if (arg === "--all") {
+      all = true;
+    } else {
+      refs.push(arg);
     }
+  }
 
-    // Build the arm64 boot Image (native build, no cross toolchain needed).
-    await run(["make", "Image", `-j${nproc}`]);
-
-    // Compress the Image only when uImage compression is gzip.
-    let imageSrc = "arch/arm64/boot/Image";
-    if (uimageComp === "gzip") {
-      await run(["gzip", "-9", "-k", "-f", "arch/arm64/boot/Image"]);
-      imageSrc = "arch/arm64/boot/Image.gz";
+  if (command === "list") {
+    console.log(formatCacheEntries(await listCache(cacheDir)));
+  } else if (command === "prune") {
+    if (!all && olderThanDays === undefined && refs.length === 0) {
+      throw new BuildError(
+        "usage: ./build.ts cache prune [ref...] [--older-than <days>] [--all]"
+      );
     }
-
-    // Default the image name to this tree's kernel release string.
-    const krel = await capture(["make", "-s", "kernelrelease"]);
-    const imageName = uimageName ?? `Linux ${krel}`;
-
-    await run([
-      "mkimage",
-      "-A",
-      uimageArch,
-      "-O",
-      uimageOs,
-      "-T",
-      uimageType,
-      "-C",
-      uimageComp,
-      "-a",
-      uimageLoad,
-      "-e",
-      uimageEntry,
-      "-n",
-      imageName,
-      "-d",
-      imageSrc,
-      "uImage",
-    ]);
-
-    const sum = await capture(["sha256sum", "uImage"]);
-    await Deno.writeTextFile("uImage.sha256", `${sum}\n`);
-
-    console.log(chalk.green(`uImage built: ${chalk.cyan(`${cwd}/uImage`)}`));
-  } else {
+    const removed = await pruneCache(cacheDir, { refs, olderThanDays, all });
     console.log(
-      chalk.yellow(
-        `--uimage requested but arch is ${arch} (not arm64); skipping uImage.`
-      )
+      removed.length > 0
+        ? `Removed ${removed.length} worktree(s):\n${formatCacheEntries(
+            removed
+          )}`
+        : "Nothing to prune."
     );
+  } else {
+    throw new BuildError("usage: ./build.ts cache list|prune");
   }
 }
 
-// Optionally generate an initrd (and a U-Boot uInitrd on arm64).
-if (genInitrd) {
-  console.log(chalk.magenta("Generating initrd..."));
-
-  // Tools: mkinitramfs (initramfs-tools) and, for uInitrd, mkimage (u-boot-tools).
-  if (hasAptGet) {
-    try {
-      await run([
-        ..._.compact([hasSudo ? "sudo" : null]),
-        "apt-get",
-        "install",
-        "-y",
-        "initramfs-tools",
-        "u-boot-tools",
-      ]);
-    } catch {
-      // Ignore errors; the commands below will surface a clearer failure.
-    }
-  }
-
-  // Resolve this tree's kernel release string (e.g. 6.6.98-sun60iw2).
-  const krel = await capture(["make", "-s", "kernelrelease"]);
-
-  const configText = await Deno.readTextFile(".config");
-  const hasModules = configText.includes("CONFIG_MODULES=y");
-
-  if (hasModules) {
-    // `make vmlinux` never builds modules — build them now.
-    await run(["make", "modules", `-j${nproc}`]);
-
-    // System install so mkinitramfs can find them under /lib/modules/<krel>.
-    await run([..._.compact([hasSudo ? "sudo" : null]), "make", "modules_install"]);
-
-    // Staged copy for the board rootfs artifact (no sudo needed).
-    await run(["make", "modules_install", `INSTALL_MOD_PATH=${cwd}/modules-out`]);
-  }
-
-if (!hasModules) {
-    await run([..._.compact([hasSudo ? "sudo" : null]),
-      "mkdir", "-p", `/lib/modules/${krel}`]);
-  }
-
-  // Build the initrd for this kernel release.
-  const INITRD = `initrd.img-${krel}`;
-  await run([
-    ..._.compact([hasSudo ? "sudo" : null]),
-    "mkinitramfs",
-    "-o",
-    INITRD,
-    krel,
-  ]);
-
+function printUsage(): void {
   console.log(
-    chalk.green(`initrd built: ${chalk.cyan(`${cwd}/${INITRD}`)}`)
+    chalk.yellow(`Usage: $0 <kernel-version>{.y|.Z}|latest|longterm`)
   );
-
-  // uInitrd is the U-Boot ramdisk form; only meaningful on arm64 boards.
-  if (arch === "aarch64" || arch === "arm64") {
-    await run([
-      "mkimage",
-      "-A",
-      "arm64",
-      "-O",
-      "linux",
-      "-T",
-      "ramdisk",
-      "-C",
-      "gzip",
-      "-n",
-      `uInitrd ${krel}`,
-      "-d",
-      INITRD,
-      "uInitrd",
-    ]);
-    console.log(
-      chalk.green(`uInitrd built: ${chalk.cyan(`${cwd}/uInitrd`)}`)
-    );
-  }
+  console.log(
+    "Example: ./build.ts 6.1 | 6.1.12 | 6.1.y | v6.1.12 | latest | longterm"
+  );
+  console.log(
+    "Custom repo: ./build.ts --repo <git-url> --branch <branch> [--version <label>]"
+  );
+  console.log(
+    "Example: ./build.ts --repo https://github.com/tsirysndr/linux-orangepi --branch orange-pi-6.6-sun60iw2"
+  );
+  console.log(
+    "Manifest: ./build.ts --manifest vmlinux-builder.toml [--target <name>]"
+  );
+  console.log("Explain a symbol: ./build.ts why CONFIG_FOO [--json]");
+  console.log("Source cache: ./build.ts cache list | cache prune [ref...]");
 }
 
-// Optionally archive the loadable modules (lib/modules/<release>) for the
-// board rootfs. Modules aren't part of vmlinux/Image, so ship them separately.
-if (genModules) {
-  const configText = await Deno.readTextFile(".config");
-  const hasModules = configText.includes("CONFIG_MODULES=y");
-
-  if (!hasModules) {
-    console.log(
-      chalk.yellow("--modules requested but CONFIG_MODULES is not enabled; skipping.")
-    );
-  } else {
-    console.log(chalk.magenta("Archiving lib/modules..."));
-
-    const krel = await capture(["make", "-s", "kernelrelease"]);
-
-    // Build + stage into modules-out/ (idempotent — a no-op if --initrd
-    // already staged them). Staged (not system) install needs no sudo.
-    await run(["make", "modules", `-j${nproc}`]);
-    await run(["make", "modules_install", `INSTALL_MOD_PATH=${cwd}/modules-out`]);
-
-    // Archive the lib/modules/<release> subtree. The build/source symlinks in
-    // it point back into the tree; --dereference would pull the whole kernel
-    // tree in, so drop them instead.
-    const MODULES_TGZ = `modules-${krel}.tar.gz`;
-    await run([
-      "tar",
-      "--exclude=build",
-      "--exclude=source",
-      "-czf",
-      MODULES_TGZ,
-      "-C",
-      "modules-out",
-      "lib/modules",
-    ]);
-
-    const modSum = await capture(["sha256sum", MODULES_TGZ]);
-    await Deno.writeTextFile(`${MODULES_TGZ}.sha256`, `${modSum}\n`);
-
-    console.log(
-      chalk.green(`modules archived: ${chalk.cyan(`${cwd}/${MODULES_TGZ}`)}`)
-    );
+if (import.meta.main) {
+  try {
+    if (Deno.args[0] === "why") {
+      await why(Deno.args.slice(1));
+    } else if (Deno.args[0] === "cache") {
+      await cache(Deno.args.slice(1));
+    } else {
+      const { options, manifest, target } = parseArgs(Deno.args);
+
+      if (manifest) {
+        // Flags given on the command line win over the manifest.
+        const targets = resolveManifestTargets(
+          await loadManifest(manifest),
+          target,
+          _.omitBy(options, _.isUndefined)
+        );
+        for (const { name, options: targetOptions } of targets) {
+          console.log(
+            chalk.magenta(`Building manifest target ${chalk.cyan(name)}`)
+          );
+          await buildKernel(targetOptions);
+        }
+      } else {
+        if (!options.repo && !options.version) {
+          printUsage();
+          Deno.exit(1);
+        }
+        await buildKernel(options);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof BuildError)) throw error;
+    console.log(chalk.yellow(`Error: ${error.message}`));
+    Deno.exit(error.exitCode);
   }
+  Deno.exit(0);
 }
-
-Deno.exit(0);
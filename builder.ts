@@ -0,0 +1,1363 @@
+import _ from "@es-toolkit/es-toolkit/compat";
+import chalk from "chalk";
+import {
+  type ConfigFragment,
+  type ConfigProvenance,
+  type ConfigValue,
+  type DefaultConfigArch,
+  type KernelConfig,
+  KernelConfigDocument,
+  KernelConfigMerger,
+  KernelConfigParser,
+  KernelConfigProfiles,
+  KernelDefaultConfigs,
+  type MergedKernelConfig,
+} from "./config.ts";
+import {
+  type CcacheStats,
+  defaultCcacheDir,
+  diffCcacheStats,
+  formatCcacheStats,
+  readCcacheStats,
+} from "./ccache.ts";
+import {
+  computeConfigDrift,
+  type ConfigDrift,
+  droppedBuiltins,
+  formatConfigDrift,
+} from "./drift.ts";
+import {
+  BuildError,
+  capture,
+  fileExists,
+  run,
+  runQuiet,
+  sha256File,
+} from "./exec.ts";
+import {
+  artifactsIntact,
+  type BuildInputs,
+  changedInputs,
+  hashInputs,
+  readFingerprint,
+  writeFingerprint,
+} from "./fingerprint.ts";
+import { kconfigArch } from "./kconfig.ts";
+import {
+  type BuildOptions,
+  parseBuildOptions,
+  type Toolchain,
+} from "./options.ts";
+import { type AppliedPatch, applyPatches, resolvePatches } from "./patches.ts";
+import {
+  isVersionAlias,
+  resolveTarballAlias,
+  resolveVersionAlias,
+} from "./releases.ts";
+import { KernelVersion } from "./version.ts";
+import { checkoutWorktree, worktreePath } from "./source-cache.ts";
+import {
+  extractTarball,
+  fetchTarball,
+  forgetExtraction,
+  resolveTarballSource,
+} from "./tarball.ts";
+import {
+  detectHostToolchain,
+  formatToolchainMismatches,
+  sanitizeFragments,
+  type ToolchainMismatch,
+} from "./toolchain.ts";
+
+/** Provenance label of the bundled default config. */
+export const DEFAULT_CONFIG_SOURCE = "default-config.ts";
+
+/** Provenance label of inline overrides (--set/--unset/--module). */
+export const OVERRIDES_SOURCE = "overrides";
+
+/** Default upstream stable tree; overridden by `repo`. */
+export const DEFAULT_REPO_URL =
+  "git://git.kernel.org/pub/scm/linux/kernel/git/stable/linux-stable.git";
+
+/**
+ * A produced file and its sha256
+ */
+export interface BuildArtifact {
+  path: string;
+  sha256: string;
+}
+
+/**
+ * Files produced by a build (absolute paths)
+ */
+export interface BuildArtifacts {
+  vmlinux: BuildArtifact;
+  image?: BuildArtifact;
+  uimage?: BuildArtifact;
+  initrd?: BuildArtifact;
+  uinitrd?: BuildArtifact;
+  modules?: BuildArtifact;
+}
+
+/**
+ * An inline override Kconfig did not keep (usually unmet dependencies)
+ */
+export interface DroppedOverride {
+  key: string;
+  /** Value as requested (undefined: is not set) */
+  requested: ConfigValue | undefined;
+  /** Value in the final .config (undefined: not set or absent) */
+  effective: ConfigValue | undefined;
+}
+
+/**
+ * Outcome of a successful build
+ */
+export interface BuildResult {
+  /** Repository the tree was fetched from (the tarball for tarball builds) */
+  repo: string;
+  /** Checked-out branch or tag */
+  ref: string;
+  /** Label used in artifact names */
+  version: string;
+  /** Target architecture, spelled like `uname -m` (e.g. aarch64) */
+  arch: string;
+  /** Cross toolchain prefix the build used, if any */
+  crossCompile?: string | undefined;
+  /** Compiler toolchain and its version (CONFIG_CC_VERSION_TEXT) */
+  toolchain: { name: Toolchain; versionText?: string | undefined };
+  /** Output of `make kernelrelease` */
+  kernelRelease: string;
+  /** Kernel tree the build ran in */
+  sourceDir: string;
+  /** Object tree (kbuild O=) holding .config and the artifacts; the
+   * source tree unless `outDir` was given */
+  buildDir: string;
+  /** Source of every symbol of the merged config (when layers were merged) */
+  provenance?: Record<string, ConfigProvenance>;
+  /** Requested vs. effective config (when layers were merged) */
+  drift?: ConfigDrift;
+  /** Inline overrides `make olddefconfig` silently dropped */
+  droppedOverrides: DroppedOverride[];
+  /** Toolchain values recorded in the input configs that differ from this
+   * host's (those symbols are stripped before merging) */
+  toolchainMismatches: ToolchainMismatch[];
+  /** Patches applied onto the tree, in order */
+  patches: AppliedPatch[];
+  /** Hash of the build's inputs (see fingerprint.ts) */
+  fingerprint: string;
+  /** Whether the inputs matched the previous build in the object tree, whose
+   * artifacts were reused instead of building */
+  upToDate: boolean;
+  /** ccache directory and the hits and misses of this build (`ccache`);
+   * the counters are missing when ccache cannot report them */
+  ccache?: (Partial<CcacheStats> & { dir: string }) | undefined;
+  /** Minimal defconfig written for `saveDefconfig` */
+  savedDefconfig?: string;
+  artifacts: BuildArtifacts;
+}
+
+interface ResolvedSource {
+  repo: string;
+  ref: string;
+  version: string;
+}
+
+/**
+ * Where a build reads its sources and writes its objects
+ */
+export interface BuildPaths {
+  /** Source tree: linux-stable, a cached worktree or an extracted tarball */
+  srcDir: string;
+  /** Object tree (kbuild O=): `--out-dir`, else the source tree itself */
+  buildDir: string;
+  /** Source cache holding one worktree per ref */
+  cacheDir?: string;
+  /** ccache directory, when ccache is enabled */
+  ccacheDir?: string;
+}
+
+async function getMachineArch(): Promise<string> {
+  return await capture(["uname", "-m"]);
+}
+
+async function getNproc(): Promise<string> {
+  return await capture(["nproc"]);
+}
+
+function isArm64(arch: string): boolean {
+  return arch === "aarch64" || arch === "arm64";
+}
+
+// `uname -m` spelling of each --arch, used in artifact names
+const TARGET_MACHINES: Record<DefaultConfigArch, string> = {
+  x86_64: "x86_64",
+  arm64: "aarch64",
+  riscv64: "riscv64",
+};
+
+// Debian/Ubuntu cross toolchain prefix per target machine; the toolchain is
+// installed as gcc-<prefix without the trailing dash> and binutils-<...>
+const CROSS_COMPILE_PREFIXES: Record<string, string> = {
+  x86_64: "x86_64-linux-gnu-",
+  aarch64: "aarch64-linux-gnu-",
+  riscv64: "riscv64-linux-gnu-",
+};
+
+/**
+ * The architecture and toolchain a build targets and how make is told about
+ * them
+ */
+export interface BuildTarget {
+  /** Target machine, spelled like `uname -m` (e.g. aarch64) */
+  arch: string;
+  /** Whether the target differs from the host */
+  cross: boolean;
+  /** Cross toolchain prefix (e.g. aarch64-linux-gnu-) */
+  crossCompile?: string | undefined;
+  toolchain: Toolchain;
+  /** Version suffix of the LLVM tools ("-18", or "" for unversioned ones) */
+  llvmSuffix?: string | undefined;
+  /** ARCH=/CROSS_COMPILE=/LLVM=/CC= arguments passed to every make invocation */
+  makeVars: string[];
+}
+
+/**
+ * Resolve the target architecture and toolchain from the options. GCC cross
+ * builds default to the Debian cross toolchain prefix of the target; clang
+ * targets every architecture itself, so LLVM builds only pass ARCH. Native
+ * GCC builds pass no make variables unless a prefix is given.
+ *
+ * @param hostArch this machine's `uname -m`
+ */
+export function resolveTarget(
+  options: BuildOptions,
+  hostArch: string
+): BuildTarget {
+  const arch = options.arch ? TARGET_MACHINES[options.arch] : hostArch;
+  const cross = kconfigArch(arch) !== kconfigArch(hostArch);
+  const toolchain = options.toolchain ?? "gcc";
+  const crossCompile =
+    options.crossCompile ??
+    (cross && toolchain === "gcc" ? CROSS_COMPILE_PREFIXES[arch] : undefined);
+  const llvmSuffix =
+    toolchain === "llvm"
+      ? options.llvmVersion
+        ? `-${options.llvmVersion}`
+        : ""
+      : undefined;
+  return {
+    arch,
+    cross,
+    crossCompile,
+    toolchain,
+    llvmSuffix,
+    makeVars: [
+      ...(cross ? [`ARCH=${kconfigArch(arch)}`] : []),
+      ...(crossCompile ? [`CROSS_COMPILE=${crossCompile}`] : []),
+      ...(llvmSuffix !== undefined ? [`LLVM=${llvmSuffix || "1"}`] : []),
+      ...(options.llvmIas !== undefined
+        ? [`LLVM_IAS=${options.llvmIas ? 1 : 0}`]
+        : []),
+      // The compiler LLVM=/CROSS_COMPILE= would pick, behind ccache
+      ...(options.ccache
+        ? [
+            `CC=ccache ${
+              llvmSuffix !== undefined
+                ? `clang${llvmSuffix}`
+                : `${crossCompile ?? ""}gcc`
+            }`,
+          ]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Compare a config's `# Linux/<arch> <version>` header with the target arch
+ * and the kernel version being built, and describe every mismatch. Configs
+ * without a header (fragments, hand-written files) never warn.
+ *
+ * @param machineArch target architecture, spelled like `uname -m`
+ * @param version stable version being built, e.g. "6.16.2" or "6.16"
+ */
+export function configHeaderWarnings(
+  config: KernelConfig,
+  machineArch: string,
+  version?: string
+): string[] {
+  const warnings: string[] = [];
+  const targetArch = kconfigArch(machineArch);
+  if (config.arch && config.arch !== targetArch) {
+    warnings.push(
+      `config was generated for ${config.arch}, but this build targets ${targetArch}`
+    );
+  }
+
+  const generated = config.version && KernelVersion.tryParse(config.version);
+  const built = version && KernelVersion.tryParse(version);
+  if (generated && built && !generated.sameSeries(built)) {
+    warnings.push(
+      `config was generated for Linux ${config.version}, but ${version} is being built; expect olddefconfig to change it`
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Resolve the repository, ref and artifact label from the options
+ */
+export function resolveSource(options: BuildOptions): ResolvedSource {
+  const { repo, branch, version, label } = parseBuildOptions(options);
+
+  if (repo && branch) {
+    // Custom repository + branch/tag (e.g. an OrangePi/BSP kernel fork).
+    return {
+      repo,
+      ref: branch,
+      // Name the artifact from the label, else the version, else a
+      // filesystem-safe form of the branch name.
+      version: label ?? version ?? branch.replace(/[^A-Za-z0-9._-]+/g, "-"),
+    };
+  }
+
+  if (!version) {
+    throw new BuildError("a kernel version is required");
+  }
+
+  // Maintenance branch (linux-6.16.y, named 6.16) or tag (v6.16.2, v6.17-rc3)
+  const parsed = KernelVersion.parse(version);
+  return {
+    repo: DEFAULT_REPO_URL,
+    ref: parsed.ref(),
+    version: label ?? (parsed.isBranch ? parsed.series : parsed.format()),
+  };
+}
+
+// Relative paths are taken from the working directory; URLs are kept
+function inDir(workDir: string, path: string): string {
+  return path.startsWith("/") || /^https?:\/\//i.test(path)
+    ? path
+    : `${workDir}/${path}`;
+}
+
+/**
+ * Resolve the source, object, cache and ccache directories of a build,
+ * relative to `workDir`
+ */
+export function resolveBuildPaths(
+  options: BuildOptions,
+  source: ResolvedSource,
+  workDir: string
+): BuildPaths {
+  // With a source cache each ref gets its own worktree; otherwise every ref
+  // is checked out in turn in linux-stable. Tarballs extract to
+  // linux-<version>.
+  const cacheDir = options.cacheDir
+    ? inDir(workDir, options.cacheDir)
+    : undefined;
+  const srcDir =
+    options.source === "tarball" && options.version
+      ? `${workDir}/linux-${KernelVersion.parse(options.version).format()}`
+      : cacheDir
+      ? worktreePath(cacheDir, source.repo, source.ref)
+      : `${workDir}/linux-stable`;
+  return {
+    srcDir,
+    // Separate object trees let several configs or arches share one checkout
+    buildDir: options.outDir ? inDir(workDir, options.outDir) : srcDir,
+    cacheDir,
+    ccacheDir: options.ccache
+      ? inDir(workDir, options.ccacheDir ?? defaultCcacheDir(workDir))
+      : undefined,
+  };
+}
+
+/**
+ * Whether a source tree was configured or built in (a `.config` or
+ * `include/config` left by kbuild), which makes kbuild refuse O= builds
+ */
+export async function hasInTreeBuild(srcDir: string): Promise<boolean> {
+  return (
+    (await fileExists(`${srcDir}/.config`)) ||
+    (await fileExists(`${srcDir}/include/config`))
+  );
+}
+
+/**
+ * Fetch `ref` into an existing checkout and check it out. `clean` runs before
+ * the checkout with the commit the ref points at locally (empty when it is
+ * not local yet, and possibly an older tip than the one checked out), so it
+ * only decides whether the tree needs cleaning.
+ *
+ * @returns the commit that was checked out
+ */
+export async function updateCheckout(
+  srcDir: string,
+  ref: string,
+  clean: (pending: string) => Promise<void>
+): Promise<string> {
+  const inTree = { cwd: srcDir };
+  // Shallow-fetch the specific ref (works for both branches and tags)
+  try {
+    await run(["git", "-C", srcDir, "fetch", "--depth=1", "origin", ref]);
+  } catch {
+    await run(["git", "-C", srcDir, "fetch", "origin", ref]);
+  }
+
+  await clean(
+    await capture(
+      ["git", "rev-parse", "--verify", "-q", `${ref}^{commit}`],
+      inTree
+    )
+  );
+  await run(["git", "checkout", "-f", ref], inTree);
+  return await capture(["git", "rev-parse", "HEAD"], inTree);
+}
+
+/**
+ * Build a kernel. Options are validated before anything runs, and the process
+ * is never exited: failures are thrown as `BuildError`.
+ */
+export async function buildKernel(input: BuildOptions): Promise<BuildResult> {
+  const options = parseBuildOptions(input);
+  // Series aliases (latest, longterm, 6.1, 6.1.y) build the newest release,
+  // and artifacts are named after it. Tarball builds list the tarballs of
+  // kernel.org or the mirror instead of the git tags.
+  if (!options.repo && options.version && isVersionAlias(options.version)) {
+    const release =
+      options.source === "tarball"
+        ? await resolveTarballAlias(options.version, options.tarball)
+        : await resolveVersionAlias(DEFAULT_REPO_URL, options.version);
+    console.log(`Resolved ${options.version} to ${chalk.cyan(`v${release}`)}`);
+    options.version = release;
+  }
+  const resolvedSource = resolveSource(options);
+  const { repo, ref, version } = resolvedSource;
+  const workDir = options.workDir ?? Deno.cwd();
+  const inWorkDir = (path: string) => inDir(workDir, path);
+  const { srcDir, buildDir, cacheDir, ccacheDir } = resolveBuildPaths(
+    options,
+    resolvedSource,
+    workDir
+  );
+  const tarballVersion =
+    options.source === "tarball" && options.version
+      ? KernelVersion.parse(options.version).format()
+      : undefined;
+  const inTree = { cwd: srcDir };
+  const inBuild = { cwd: buildDir };
+  const hostArch = await getMachineArch();
+  const target = resolveTarget(options, hostArch);
+  const { arch } = target;
+  // make exports command-line variables to the compilers it runs, so
+  // CCACHE_DIR reaches ccache without touching the environment
+  const make = [
+    "make",
+    ...(options.outDir ? [`O=${buildDir}`] : []),
+    ...target.makeVars,
+    ...(ccacheDir ? [`CCACHE_DIR=${ccacheDir}`] : []),
+  ];
+
+  if (target.toolchain === "llvm") {
+    console.log(
+      chalk.magenta(
+        `Building with the LLVM toolchain (${chalk.cyan(
+          target.makeVars.filter((v) => v.startsWith("LLVM")).join(" ")
+        )})`
+      )
+    );
+  }
+
+  if (target.cross) {
+    console.log(
+      chalk.magenta(
+        `Cross-compiling for ${chalk.cyan(arch)} on ${chalk.cyan(
+          hostArch
+        )} with ${chalk.cyan(target.makeVars.join(" "))}`
+      )
+    );
+  }
+
+  // Default config of the requested arch, else of this machine. Machines
+  // without one of their own keep getting the x86_64 default, which
+  // olddefconfig prunes to what applies.
+  let defaultArch = options.arch ?? KernelDefaultConfigs.archFor(arch);
+  if (!defaultArch) {
+    console.log(
+      chalk.yellow(
+        `No default config for ${arch}; using the x86_64 one (olddefconfig drops what doesn't apply).`
+      )
+    );
+    defaultArch = "x86_64";
+  }
+  const defaults = KernelDefaultConfigs.fragments(defaultArch);
+
+  if (options.repo) {
+    console.log(
+      `Building vmlinux from ${chalk.cyan(repo)} @ ${chalk.cyan(ref)}`
+    );
+  } else {
+    console.log(
+      `Building vmlinux for Linux kernel ${chalk.cyan(
+        options.version?.replace(/^v/, "")
+      )}`
+    );
+  }
+
+  if (options.defconfig) {
+    console.log(
+      chalk.magenta(
+        `Board defconfig detected: ${chalk.cyan(
+          options.defconfig
+        )} — it will be used as the base config (board wins) with the default config layered underneath.`
+      )
+    );
+  }
+
+  if (options.mergeConfig) {
+    console.log(
+      chalk.magenta(
+        `Merge config detected: ${chalk.cyan(
+          options.mergeConfig
+        )} — it will be merged with the default config (provided config overrides on conflicts).`
+      )
+    );
+  }
+
+  if (options.profiles?.length) {
+    console.log(
+      chalk.magenta(
+        `Config profiles: ${chalk.cyan(
+          options.profiles.join(", ")
+        )} — layered over the base config in order.`
+      )
+    );
+  }
+
+  const hasAptGet = await runQuiet(["which", "apt-get"]);
+  const hasSudo = await runQuiet(["which", "sudo"]);
+  const sudo = _.compact([hasSudo ? "sudo" : null]);
+
+  const aptInstall = async (packages: string[]) => {
+    if (!hasAptGet) return;
+    try {
+      await run([...sudo, "apt-get", "install", "-y", ...packages]);
+    } catch {
+      // Ignore errors; the commands needing these tools surface a clearer failure.
+    }
+  };
+
+  await aptInstall([
+    "git",
+    "build-essential",
+    "flex",
+    "bison",
+    "libncurses5-dev",
+    "libssl-dev",
+    "gcc",
+    "bc",
+    "libelf-dev",
+    "pahole",
+    ...(tarballVersion ? ["xz-utils", "gnupg"] : []),
+  ]);
+
+  // Cross toolchain for the default prefix (custom prefixes are the caller's
+  // to install).
+  if (target.cross && !options.crossCompile && target.crossCompile) {
+    const triple = target.crossCompile.replace(/-$/, "");
+    await aptInstall([`gcc-${triple}`, `binutils-${triple}`]);
+  }
+
+  if (target.llvmSuffix !== undefined) {
+    await aptInstall(
+      ["clang", "lld", "llvm"].map((pkg) => `${pkg}${target.llvmSuffix}`)
+    );
+  }
+
+  if (options.outDir) {
+    console.log(`Object tree: ${chalk.cyan(buildDir)}`);
+    await Deno.mkdir(buildDir, { recursive: true });
+  }
+
+  if (ccacheDir) {
+    await aptInstall(["ccache"]);
+    console.log(`ccache: ${chalk.cyan(ccacheDir)}`);
+    await Deno.mkdir(ccacheDir, { recursive: true });
+  }
+
+  // Toolchain-derived symbols (compiler versions, feature probes) describe
+  // the machine each config was generated on; strip them so Kconfig
+  // recomputes them for this host, and report the ones that differ.
+  const hostToolchain = await detectHostToolchain(
+    target.crossCompile,
+    target.llvmSuffix
+  );
+
+  // The previous build in this object tree decides what can be reused. The
+  // object tree is only cleaned when more than the config changed.
+  const previous = options.force ? undefined : await readFingerprint(buildDir);
+  const patchFiles = options.patches
+    ? await resolvePatches(options.patches.map(inWorkDir))
+    : [];
+  const patchHashes: string[] = [];
+  for (const patch of patchFiles) {
+    patchHashes.push(await sha256File(patch.path));
+  }
+  const sourceChanged = (source: string) => {
+    const changed =
+      !previous ||
+      !source ||
+      changedInputs(previous.inputs, {
+        source,
+        patches: patchHashes,
+        toolchain: hostToolchain,
+      }).length > 0;
+    if (!changed) {
+      console.log(
+        "Source, patches and toolchain unchanged; keeping the object tree"
+      );
+    }
+    return changed;
+  };
+  // Checked-out commit, or the tarball's sha256
+  let sourceId = "";
+
+  let tarballLocation: string | undefined;
+  if (tarballVersion) {
+    const source = resolveTarballSource(tarballVersion, {
+      tarball: options.tarball && inWorkDir(options.tarball),
+      sha256: options.tarballSha256,
+      signature:
+        options.tarballSignature && inWorkDir(options.tarballSignature),
+    });
+    tarballLocation = source.location;
+    // Downloads are kept in the source cache when there is one
+    const tarball = await fetchTarball(
+      source,
+      cacheDir ? `${cacheDir}/tarballs` : workDir
+    );
+    const extracted = await extractTarball(
+      tarball.path,
+      tarball.sha256,
+      srcDir
+    );
+    sourceId = tarball.sha256;
+    // A reused tree keeps the objects of its last in-tree build
+    if (!extracted && sourceChanged(sourceId)) {
+      await run(["make", ...target.makeVars, "mrproper"], inTree);
+    }
+  } else if (cacheDir) {
+    console.log(`Source cache: ${chalk.cyan(cacheDir)}`);
+    await checkoutWorktree(cacheDir, repo, ref);
+    sourceId = await capture(["git", "rev-parse", "HEAD"], inTree);
+    // Each worktree keeps the objects of its last in-tree build
+    if (sourceChanged(sourceId)) {
+      await run(["make", ...target.makeVars, "mrproper"], inTree);
+    }
+  } else if (!(await fileExists(srcDir))) {
+    // Clone directly at the desired ref (branch or tag)
+    await run(["git", "clone", "--depth=1", "--branch", ref, repo, srcDir]);
+    sourceId = await capture(["git", "rev-parse", "HEAD"], inTree);
+  } else {
+    sourceId = await updateCheckout(srcDir, ref, async (pending) => {
+      if (sourceChanged(pending)) {
+        await run(["rm", "-rf", "Documentation/Kbuild"], inTree);
+        // Only cleans the source tree (kbuild requires it clean for O=
+        // builds); --out-dir object trees survive ref changes for
+        // incremental rebuilds.
+        await run(["make", ...target.makeVars, "mrproper"], inTree);
+      }
+    });
+  }
+
+  // Source trees keep their objects for incremental in-tree rebuilds, even
+  // when the ref is unchanged, but kbuild refuses O= builds from a source
+  // tree that was built in.
+  if (options.outDir && (await hasInTreeBuild(srcDir))) {
+    console.log("Cleaning the in-tree build from the source tree for O=");
+    await run(["make", ...target.makeVars, "mrproper"], inTree);
+  }
+
+  // Patches land before any config is read, so fragments and Kconfig see the
+  // patched tree
+  let patches: AppliedPatch[] = [];
+  if (patchFiles.length > 0) {
+    patches = await applyPatches(srcDir, patchFiles);
+    // A patched tarball tree is extracted afresh next time
+    if (tarballVersion) await forgetExtraction(srcDir);
+    await Deno.writeTextFile(
+      `${buildDir}/patches.json`,
+      JSON.stringify(patches, null, 2)
+    );
+  }
+
+  // Config layers, lowest precedence first: the base of whichever path runs
+  // below, profiles in order, then --merge-config, extra fragments in order,
+  // inline overrides.
+  const profiles = KernelConfigProfiles.fragments(
+    options.profiles ?? [],
+    defaultArch
+  );
+  const layers = await loadConfigLayers(options, srcDir);
+
+  const toolchainMismatches: ToolchainMismatch[] = [];
+  const mergeSanitized = (fragments: ConfigFragment[]) => {
+    const sanitized = sanitizeFragments(fragments, hostToolchain);
+    toolchainMismatches.push(...sanitized.mismatches);
+    return KernelConfigMerger.merge(sanitized.fragments);
+  };
+  let merged: MergedKernelConfig | undefined;
+  let drift: ConfigDrift | undefined;
+
+  if (options.defconfig) {
+    // Board/BSP path: the board defconfig is the base and WINS on conflicts,
+    // our default config is layered underneath to fill in extras.
+    console.log(
+      `Using board defconfig ${chalk.cyan(
+        options.defconfig
+      )} as base (board essentials win); layering default config underneath.`
+    );
+
+    // Generate the board's full .config (e.g. `make sun60iw2_defconfig`).
+    await run([...make, options.defconfig], inTree);
+    const board = await Deno.readTextFile(`${buildDir}/.config`);
+
+    // Our default config goes first and the board config LAST, so the board
+    // overrides our defaults on any conflicting symbol.
+    // Older BSP trees often fail to build with modern GCC when warnings are
+    // fatal; force CONFIG_WERROR off right after the board config.
+    // Any board-specific symbols (e.g. CONFIG_PM_DEVFREQ for the Allwinner DMC
+    // devfreq driver) belong in the board's own defconfig, not here.
+    merged = mergeSanitized([
+      ...defaults,
+      { source: options.defconfig, content: board },
+      { source: "builder", content: "# CONFIG_WERROR is not set" },
+      ...profiles,
+      ...layers,
+    ]);
+  } else if (options.mergeConfig) {
+    const provided = await loadConfigSource(options.mergeConfig, srcDir);
+    // Custom repos have no known version, so only stable builds compare it.
+    for (const warning of configHeaderWarnings(
+      KernelConfigParser.parse(provided),
+      arch,
+      options.repo ? undefined : options.version
+    )) {
+      console.log(chalk.yellow(`Warning: ${warning}`));
+    }
+
+    // Merge an existing config with the default config, putting the provided
+    // config LAST so it overrides the default on conflicting symbols. The
+    // default only fills in symbols the provided config doesn't set.
+    merged = mergeSanitized([
+      ...defaults,
+      ...profiles,
+      { source: options.mergeConfig, content: provided },
+      ...layers,
+    ]);
+  } else {
+    if (!(await fileExists(`${workDir}/.config`))) {
+      console.log(
+        chalk.yellow(
+          `No .config file found in the current directory. Using the ${defaultArch} default configuration.`
+        )
+      );
+      await Deno.writeTextFile(
+        `${workDir}/.config`,
+        KernelDefaultConfigs.content(defaultArch)
+      );
+    }
+
+    const local = sanitizeFragments(
+      [
+        {
+          source: ".config",
+          content: await Deno.readTextFile(`${workDir}/.config`),
+        },
+      ],
+      hostToolchain
+    );
+    toolchainMismatches.push(...local.mismatches);
+    await Deno.writeTextFile(`${buildDir}/.config`, local.fragments[0].content);
+
+    if (profiles.length > 0 || layers.length > 0) {
+      merged = mergeSanitized([local.fragments[0], ...profiles, ...layers]);
+    }
+  }
+
+  if (toolchainMismatches.length > 0) {
+    console.log(chalk.yellow(formatToolchainMismatches(toolchainMismatches)));
+  }
+
+  if (merged) {
+    await Deno.writeTextFile(
+      `${buildDir}/.config`,
+      `${KernelConfigMerger.toConfig(merged)}\n`
+    );
+    await Deno.writeTextFile(
+      `${buildDir}/config-provenance.json`,
+      JSON.stringify(merged.provenance, null, 2)
+    );
+    printProvenance(merged, [...profiles, ...layers]);
+
+    // Normalize the merged config against this tree's Kconfig (fills in new
+    // symbols with their defaults, drops symbols that don't apply).
+    await run([...make, "olddefconfig"], inTree);
+
+    drift = computeConfigDrift(
+      merged.config,
+      KernelConfigParser.parse(await Deno.readTextFile(`${buildDir}/.config`))
+    );
+    await Deno.writeTextFile(
+      `${buildDir}/config-drift.json`,
+      JSON.stringify(drift, null, 2)
+    );
+    console.log(chalk.magenta(formatConfigDrift(drift)));
+
+    const lost = droppedBuiltins(drift);
+    if (options.strictConfig && lost.length > 0) {
+      throw new BuildError(
+        `--strict-config: ${
+          lost.length
+        } requested =y symbol(s) dropped by Kconfig: ${lost
+          .map((entry) => entry.key)
+          .join(", ")}`
+      );
+    }
+  }
+
+  const droppedOverrides = options.config
+    ? findDroppedOverrides(
+        options.config,
+        KernelConfigParser.parse(await Deno.readTextFile(`${buildDir}/.config`))
+      )
+    : [];
+  if (droppedOverrides.length > 0) {
+    console.log(
+      chalk.yellow(
+        "Some config overrides were dropped by Kconfig (unmet dependencies?):"
+      )
+    );
+    for (const { key, requested, effective } of droppedOverrides) {
+      console.log(
+        chalk.yellow(
+          `  ${key}: requested ${requested ?? "is not set"}, got ${
+            effective ?? "is not set"
+          }`
+        )
+      );
+    }
+  }
+
+  let savedDefconfig: string | undefined;
+  if (options.saveDefconfig) {
+    // kbuild's own reduction, written to defconfig in the object tree
+    savedDefconfig = inWorkDir(options.saveDefconfig);
+    await run([...make, "savedefconfig"], inTree);
+    await Deno.copyFile(`${buildDir}/defconfig`, savedDefconfig);
+    console.log(`Saved minimal defconfig to ${chalk.cyan(savedDefconfig)}`);
+  }
+
+  const inputs: BuildInputs = {
+    source: sourceId,
+    patches: patchHashes,
+    toolchain: hostToolchain,
+    config: await sha256File(`${buildDir}/.config`),
+    options: {
+      version,
+      arch,
+      makeVars: target.makeVars,
+      image: options.image,
+      uimage: options.uimage,
+      initrd: options.initrd,
+      modules: options.modules,
+    },
+  };
+  const fingerprint = await hashInputs(inputs);
+  let ccache: BuildResult["ccache"];
+  const result = (
+    kernelRelease: string,
+    artifacts: BuildArtifacts,
+    upToDate: boolean
+  ): BuildResult => ({
+    repo: tarballLocation ?? repo,
+    ref,
+    version,
+    arch,
+    crossCompile: target.crossCompile,
+    toolchain: {
+      name: target.toolchain,
+      versionText: hostToolchain.CONFIG_CC_VERSION_TEXT?.toString(),
+    },
+    kernelRelease,
+    sourceDir: srcDir,
+    buildDir,
+    provenance: merged?.provenance,
+    drift,
+    droppedOverrides,
+    toolchainMismatches,
+    patches,
+    fingerprint,
+    upToDate,
+    ccache,
+    savedDefconfig,
+    artifacts,
+  });
+
+  if (previous?.hash === fingerprint) {
+    if (await artifactsIntact(previous.artifacts)) {
+      console.log(
+        chalk.green(
+          `Build inputs unchanged (${fingerprint.slice(
+            0,
+            12
+          )}); reusing ${chalk.cyan(previous.artifacts.vmlinux.path)}`
+        )
+      );
+      return result(previous.kernelRelease, previous.artifacts, true);
+    }
+    console.log("Build inputs unchanged but artifacts are missing; rebuilding");
+  } else if (previous) {
+    console.log(
+      `Rebuilding incrementally: ${changedInputs(previous.inputs, inputs).join(
+        ", "
+      )} changed`
+    );
+  }
+
+  // The cache may be shared, so this build's stats are a before/after delta
+  const ccacheBefore = ccacheDir ? await readCcacheStats(ccacheDir) : undefined;
+
+  await run([...make, "prepare"], inTree);
+
+  const nproc = await getNproc();
+  await makeVmlinux(srcDir, nproc, make);
+
+  // Rename vmlinux
+  const vmlinuxPath = `${buildDir}/vmlinux-${version}.${arch}`;
+  await Deno.rename(`${buildDir}/vmlinux`, vmlinuxPath);
+
+  console.log(chalk.green("vmlinux built successfully!"));
+  console.log(`You can find the vmlinux file in ${chalk.cyan(vmlinuxPath)}`);
+  if (hostToolchain.CONFIG_CC_VERSION_TEXT) {
+    console.log(
+      `Built with ${chalk.cyan(String(hostToolchain.CONFIG_CC_VERSION_TEXT))}`
+    );
+  }
+
+  const kernelRelease = await capture([...make, "-s", "kernelrelease"], inTree);
+  const artifacts: BuildArtifacts = {
+    vmlinux: { path: vmlinuxPath, sha256: await sha256File(vmlinuxPath) },
+  };
+
+  // On arm64, also emit the raw bootable Image (arch/arm64/boot/Image). This is
+  // the objcopy'd binary the board actually boots (what `/boot/vmlinux-*` is on
+  // an OrangePi), as opposed to the large ELF `vmlinux` above.
+  if (isArm64(arch) && options.image !== false) {
+    await run([...make, "Image", `-j${nproc}`], inTree);
+
+    const image = `Image-${version}.${arch}`;
+    await Deno.copyFile(
+      `${buildDir}/arch/arm64/boot/Image`,
+      `${buildDir}/${image}`
+    );
+    artifacts.image = await writeChecksum(buildDir, image);
+
+    console.log(
+      chalk.green(`boot Image built: ${chalk.cyan(artifacts.image.path)}`)
+    );
+  }
+
+  // Optionally build the arm64 boot Image and wrap it as a U-Boot uImage.
+  if (options.uimage) {
+    if (isArm64(arch)) {
+      console.log(chalk.magenta("Generating uImage..."));
+
+      // mkimage lives in u-boot-tools.
+      await aptInstall(["u-boot-tools"]);
+
+      const uimage = {
+        arch: "arm",
+        os: "linux",
+        type: "kernel",
+        comp: "none",
+        load: "0x41000000",
+        entry: "0x41000000",
+        name: `Linux ${kernelRelease}`,
+        ...options.uimage,
+      };
+
+      // Build the arm64 boot Image (with the cross toolchain when not on arm64).
+      await run([...make, "Image", `-j${nproc}`], inTree);
+
+      // Compress the Image only when uImage compression is gzip.
+      let imageSrc = "arch/arm64/boot/Image";
+      if (uimage.comp === "gzip") {
+        await run(["gzip", "-9", "-k", "-f", "arch/arm64/boot/Image"], inBuild);
+        imageSrc = "arch/arm64/boot/Image.gz";
+      }
+
+      await run(
+        [
+          "mkimage",
+          "-A",
+          uimage.arch,
+          "-O",
+          uimage.os,
+          "-T",
+          uimage.type,
+          "-C",
+          uimage.comp,
+          "-a",
+          uimage.load,
+          "-e",
+          uimage.entry,
+          "-n",
+          uimage.name,
+          "-d",
+          imageSrc,
+          "uImage",
+        ],
+        inBuild
+      );
+
+      artifacts.uimage = await writeChecksum(buildDir, "uImage");
+
+      console.log(
+        chalk.green(`uImage built: ${chalk.cyan(artifacts.uimage.path)}`)
+      );
+    } else {
+      console.log(
+        chalk.yellow(
+          `--uimage requested but arch is ${arch} (not arm64); skipping uImage.`
+        )
+      );
+    }
+  }
+
+  const configText = await Deno.readTextFile(`${buildDir}/.config`);
+  const hasModules = configText.includes("CONFIG_MODULES=y");
+
+  // Optionally generate an initrd (and a U-Boot uInitrd on arm64).
+  if (options.initrd && target.cross) {
+    // mkinitramfs packs this machine's userspace, which the target can't run.
+    console.log(
+      chalk.yellow(
+        `--initrd requested but cross-compiling for ${arch}; skipping initrd.`
+      )
+    );
+  } else if (options.initrd) {
+    console.log(chalk.magenta("Generating initrd..."));
+
+    // Tools: mkinitramfs (initramfs-tools) and, for uInitrd, mkimage (u-boot-tools).
+    await aptInstall(["initramfs-tools", "u-boot-tools"]);
+
+    if (hasModules) {
+      // `make vmlinux` never builds modules — build them now.
+      await run([...make, "modules", `-j${nproc}`], inTree);
+
+      // System install so mkinitramfs can find them under /lib/modules/<krel>.
+      await run([...sudo, ...make, "modules_install"], inTree);
+
+      // Staged copy for the board rootfs artifact (no sudo needed).
+      await run(
+        [
+          ...make,
+          "modules_install",
+          `INSTALL_MOD_PATH=${buildDir}/modules-out`,
+        ],
+        inTree
+      );
+    } else {
+      await run([...sudo, "mkdir", "-p", `/lib/modules/${kernelRelease}`]);
+    }
+
+    // Build the initrd for this kernel release.
+    const initrdPath = `${buildDir}/initrd.img-${kernelRelease}`;
+    await run([...sudo, "mkinitramfs", "-o", initrdPath, kernelRelease]);
+    artifacts.initrd = {
+      path: initrdPath,
+      sha256: await sha256File(initrdPath),
+    };
+
+    console.log(chalk.green(`initrd built: ${chalk.cyan(initrdPath)}`));
+
+    // uInitrd is the U-Boot ramdisk form; only meaningful on arm64 boards.
+    if (isArm64(arch)) {
+      await run(
+        [
+          "mkimage",
+          "-A",
+          "arm64",
+          "-O",
+          "linux",
+          "-T",
+          "ramdisk",
+          "-C",
+          "gzip",
+          "-n",
+          `uInitrd ${kernelRelease}`,
+          "-d",
+          initrdPath,
+          "uInitrd",
+        ],
+        inBuild
+      );
+      const uinitrdPath = `${buildDir}/uInitrd`;
+      artifacts.uinitrd = {
+        path: uinitrdPath,
+        sha256: await sha256File(uinitrdPath),
+      };
+      console.log(chalk.green(`uInitrd built: ${chalk.cyan(uinitrdPath)}`));
+    }
+  }
+
+  // Optionally archive the loadable modules (lib/modules/<release>) for the
+  // board rootfs. Modules aren't part of vmlinux/Image, so ship them separately.
+  if (options.modules) {
+    if (!hasModules) {
+      console.log(
+        chalk.yellow(
+          "--modules requested but CONFIG_MODULES is not enabled; skipping."
+        )
+      );
+    } else {
+      console.log(chalk.magenta("Archiving lib/modules..."));
+
+      // Build + stage into modules-out/ (idempotent — a no-op if initrd
+      // already staged them). Staged (not system) install needs no sudo.
+      await run([...make, "modules", `-j${nproc}`], inTree);
+      await run(
+        [
+          ...make,
+          "modules_install",
+          `INSTALL_MOD_PATH=${buildDir}/modules-out`,
+        ],
+        inTree
+      );
+
+      // Archive the lib/modules/<release> subtree. The build/source symlinks in
+      // it point back into the tree; --dereference would pull the whole kernel
+      // tree in, so drop them instead.
+      const modulesTgz = `modules-${kernelRelease}.tar.gz`;
+      await run(
+        [
+          "tar",
+          "--exclude=build",
+          "--exclude=source",
+          "-czf",
+          modulesTgz,
+          "-C",
+          `${buildDir}/modules-out`,
+          "lib/modules",
+        ],
+        inBuild
+      );
+      artifacts.modules = await writeChecksum(buildDir, modulesTgz);
+
+      console.log(
+        chalk.green(`modules archived: ${chalk.cyan(artifacts.modules.path)}`)
+      );
+    }
+  }
+
+  if (ccacheDir) {
+    const ccacheAfter = await readCcacheStats(ccacheDir);
+    if (ccacheBefore && ccacheAfter) {
+      const stats = diffCcacheStats(ccacheBefore, ccacheAfter);
+      ccache = { dir: ccacheDir, ...stats };
+      console.log(chalk.magenta(formatCcacheStats(stats)));
+    } else {
+      ccache = { dir: ccacheDir };
+      console.log(
+        chalk.yellow(
+          "ccache stats unavailable (needs ccache 4.x --print-stats)"
+        )
+      );
+    }
+  }
+
+  await writeFingerprint(buildDir, {
+    hash: fingerprint,
+    inputs,
+    kernelRelease,
+    artifacts,
+  });
+  return result(kernelRelease, artifacts, false);
+}
+
+/**
+ * Load a config from an http(s) URL or a file resolved at the kernel tree root
+ * (e.g. ".config" or "config-6.6.98-sun60iw2")
+ */
+async function loadConfigSource(
+  source: string,
+  srcDir: string
+): Promise<string> {
+  if (/^https?:\/\//i.test(source)) {
+    console.log(`Fetching existing config from ${chalk.cyan(source)}`);
+    const resp = await fetch(source);
+    if (!resp.ok) {
+      throw new BuildError(
+        `failed to fetch config (${resp.status} ${resp.statusText})`
+      );
+    }
+    return await resp.text();
+  }
+
+  console.log(`Reading config ${chalk.cyan(source)}`);
+  return await Deno.readTextFile(
+    source.startsWith("/") ? source : `${srcDir}/${source}`
+  );
+}
+
+/**
+ * Load the extra fragments (in order) and the inline overrides as the
+ * highest-precedence config layers
+ */
+async function loadConfigLayers(
+  options: BuildOptions,
+  srcDir: string
+): Promise<ConfigFragment[]> {
+  const layers: ConfigFragment[] = [];
+  for (const fragment of options.fragments ?? []) {
+    layers.push({
+      source: fragment,
+      content: await loadConfigSource(fragment, srcDir),
+    });
+  }
+  if (options.config && Object.keys(options.config).length > 0) {
+    layers.push({
+      source: OVERRIDES_SOURCE,
+      content: formatConfigOverrides(options.config),
+    });
+  }
+  return layers;
+}
+
+/**
+ * Print how many symbols each layer set, and every symbol an extra fragment
+ * or override changed on top of the base config
+ */
+function printProvenance(
+  merged: MergedKernelConfig,
+  layers: ConfigFragment[]
+): void {
+  console.log(chalk.magenta("Config provenance (symbols set per source):"));
+  for (const [source, count] of Object.entries(
+    KernelConfigMerger.summarize(merged)
+  )) {
+    console.log(`  ${chalk.cyan(source)}: ${count}`);
+  }
+
+  const layerSources = new Set(layers.map((layer) => layer.source));
+  for (const entry of Object.values(merged.provenance)) {
+    if (!layerSources.has(entry.source)) continue;
+    const previous = entry.overridden.at(-1);
+    console.log(
+      `  ${entry.line} ${chalk.gray(
+        `<- ${entry.source}${
+          previous
+            ? ` (was ${previous.value ?? "is not set"} from ${previous.source})`
+            : ""
+        }`
+      )}`
+    );
+  }
+}
+
+/**
+ * Render inline overrides as .config lines (true/"y" builtin, "m" module,
+ * false/"n" is not set, hex and decimal raw, anything else quoted)
+ */
+export function formatConfigOverrides(
+  overrides: NonNullable<BuildOptions["config"]>
+): string {
+  return Object.entries(overrides)
+    .map(([key, value]) => KernelConfigDocument.formatEntry(key, value))
+    .join("\n");
+}
+
+/**
+ * Compare inline overrides with the normalized config and return the ones
+ * Kconfig did not keep
+ */
+export function findDroppedOverrides(
+  overrides: NonNullable<BuildOptions["config"]>,
+  config: KernelConfig
+): DroppedOverride[] {
+  // Parse the rendered overrides so values compare in the parser's own
+  // representation (e.g. hex strings become numbers).
+  const requested = KernelConfigParser.parse(
+    formatConfigOverrides(overrides)
+  ).flatConfig;
+
+  const isUnset = (value: ConfigValue | undefined) =>
+    value === undefined || value === "n";
+
+  return Object.keys(overrides).flatMap((key) => {
+    const want = requested[key];
+    const got = config.flatConfig[key];
+    if (isUnset(want) ? isUnset(got) : want === got) return [];
+    return [
+      { key, requested: isUnset(want) ? undefined : want, effective: got },
+    ];
+  });
+}
+
+/**
+ * Run `make vmlinux`, feeding empty answers to any config prompt
+ * (equivalent to yes '' | make ...)
+ */
+async function makeVmlinux(
+  srcDir: string,
+  nproc: string,
+  makeCmd: string[]
+): Promise<void> {
+  const makeProcess = new Deno.Command(makeCmd[0], {
+    args: [...makeCmd.slice(1), "vmlinux", `-j${nproc}`],
+    cwd: srcDir,
+    stdin: "piped",
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+
+  const yesProcess = new Deno.Command("yes", {
+    args: [""],
+    stdout: "piped",
+  });
+
+  const yes = yesProcess.spawn();
+  const make = makeProcess.spawn();
+
+  yes.stdout.pipeTo(make.stdin).catch((err) => {
+    if (!err.message?.includes("Broken pipe")) {
+      throw err;
+    }
+  });
+
+  const { code } = await make.status;
+  try {
+    yes.kill();
+  } catch {
+    // Already exited on the broken pipe
+  }
+
+  if (code !== 0) {
+    throw new BuildError("make vmlinux failed", code);
+  }
+}
+
+/**
+ * Checksum an artifact and write the `<file>.sha256` sidecar next to it
+ */
+async function writeChecksum(
+  dir: string,
+  name: string
+): Promise<BuildArtifact> {
+  // Relative name so the sidecar works with `sha256sum -c` wherever it's copied
+  const line = await capture(["sha256sum", name], { cwd: dir });
+  await Deno.writeTextFile(`${dir}/${name}.sha256`, `${line}\n`);
+  return { path: `${dir}/${name}`, sha256: line.split(/\s+/)[0] };
+}
@@ -0,0 +1,295 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  BuildError,
+  configHeaderWarnings,
+  DEFAULT_REPO_URL,
+  findDroppedOverrides,
+  formatConfigOverrides,
+  hasInTreeBuild,
+  KernelConfigParser,
+  resolveBuildPaths,
+  resolveSource,
+  resolveTarget,
+  updateCheckout,
+} from "./build.ts";
+
+Deno.test("resolveSource maps a tag version", () => {
+  assertEquals(resolveSource({ version: "v6.16.2" }), {
+    repo: DEFAULT_REPO_URL,
+    ref: "v6.16.2",
+    version: "6.16.2",
+  });
+});
+
+Deno.test("resolveSource maps a maintenance branch", () => {
+  const source = resolveSource({ version: "6.1.y" });
+  assertEquals(source.ref, "linux-6.1.y");
+  assertEquals(source.version, "6.1");
+});
+
+Deno.test("resolveSource maps a release candidate", () => {
+  const source = resolveSource({ version: "6.17-rc3" });
+  assertEquals(source.ref, "v6.17-rc3");
+  assertEquals(source.version, "6.17-rc3");
+  assertThrows(() => resolveSource({ version: "6.6.98-sun60iw2" }), BuildError);
+});
+
+Deno.test("resolveSource names custom repo builds from the branch", () => {
+  const source = resolveSource({
+    repo: "https://github.com/tsirysndr/linux-orangepi",
+    branch: "orange-pi-6.6/sun60iw2",
+  });
+  assertEquals(source.ref, "orange-pi-6.6/sun60iw2");
+  assertEquals(source.version, "orange-pi-6.6-sun60iw2");
+});
+
+Deno.test("resolveSource rejects invalid versions", () => {
+  assertThrows(() => resolveSource({ version: "6.x" }), BuildError);
+  assertThrows(
+    () => resolveSource({ repo: "https://example.com/linux.git" }),
+    BuildError,
+    "--branch: is required when --repo is provided"
+  );
+});
+
+Deno.test("formatConfigOverrides renders .config lines", () => {
+  assertEquals(
+    formatConfigOverrides({
+      CONFIG_FOO: "y",
+      CONFIG_BAR: false,
+      CONFIG_BAZ: "m",
+      CONFIG_NR_CPUS: "64",
+      CONFIG_PHYSICAL_START: "0x1000000",
+      CONFIG_LOCALVERSION: "-fc",
+    }),
+    [
+      "CONFIG_FOO=y",
+      "# CONFIG_BAR is not set",
+      "CONFIG_BAZ=m",
+      "CONFIG_NR_CPUS=64",
+      "CONFIG_PHYSICAL_START=0x1000000",
+      'CONFIG_LOCALVERSION="-fc"',
+    ].join("\n")
+  );
+});
+
+Deno.test("findDroppedOverrides reports symbols Kconfig did not keep", () => {
+  const config = KernelConfigParser.parse(
+    [
+      "CONFIG_NET=y",
+      "# CONFIG_VIRTIO_NET is not set",
+      "CONFIG_NR_CPUS=64",
+      "CONFIG_PHYSICAL_START=0x1000000",
+    ].join("\n")
+  );
+  assertEquals(
+    findDroppedOverrides(
+      {
+        CONFIG_NET: true,
+        CONFIG_VIRTIO_NET: "m",
+        CONFIG_DEBUG: false,
+        CONFIG_NR_CPUS: 64,
+        CONFIG_PHYSICAL_START: "0x1000000",
+      },
+      config
+    ),
+    [{ key: "CONFIG_VIRTIO_NET", requested: "m", effective: undefined }]
+  );
+});
+
+Deno.test("configHeaderWarnings flags foreign arch and kernel series", () => {
+  const config = KernelConfigParser.parse(
+    "#\n# Linux/arm64 6.1.55 Kernel Configuration\n#\nCONFIG_SMP=y\n"
+  );
+  assertEquals(configHeaderWarnings(config, "aarch64", "6.1.y"), []);
+  assertEquals(configHeaderWarnings(config, "x86_64", "6.16.2"), [
+    "config was generated for arm64, but this build targets x86",
+    "config was generated for Linux 6.1.55, but 6.16.2 is being built; expect olddefconfig to change it",
+  ]);
+  // No header, nothing to compare
+  assertEquals(
+    configHeaderWarnings(KernelConfigParser.parse("CONFIG_SMP=y"), "x86_64"),
+    []
+  );
+});
+
+Deno.test("resolveTarget cross-compiles only for a foreign arch", () => {
+  assertEquals(resolveTarget({ version: "6.16" }, "x86_64"), {
+    arch: "x86_64",
+    cross: false,
+    crossCompile: undefined,
+    toolchain: "gcc",
+    llvmSuffix: undefined,
+    makeVars: [],
+  });
+  assertEquals(
+    resolveTarget({ version: "6.16", arch: "arm64" }, "aarch64").makeVars,
+    []
+  );
+  assertEquals(resolveTarget({ version: "6.16", arch: "arm64" }, "x86_64"), {
+    arch: "aarch64",
+    cross: true,
+    crossCompile: "aarch64-linux-gnu-",
+    toolchain: "gcc",
+    llvmSuffix: undefined,
+    makeVars: ["ARCH=arm64", "CROSS_COMPILE=aarch64-linux-gnu-"],
+  });
+  assertEquals(
+    resolveTarget(
+      {
+        version: "6.16",
+        arch: "riscv64",
+        crossCompile: "riscv64-unknown-linux-gnu-",
+      },
+      "x86_64"
+    ).makeVars,
+    ["ARCH=riscv", "CROSS_COMPILE=riscv64-unknown-linux-gnu-"]
+  );
+});
+
+Deno.test("resolveTarget passes LLVM= to make for llvm builds", () => {
+  assertEquals(
+    resolveTarget({ version: "6.16", toolchain: "llvm" }, "x86_64").makeVars,
+    ["LLVM=1"]
+  );
+  // clang cross-compiles by itself: no CROSS_COMPILE prefix
+  const target = resolveTarget(
+    {
+      version: "6.16",
+      arch: "arm64",
+      toolchain: "llvm",
+      llvmVersion: "18",
+      llvmIas: false,
+    },
+    "x86_64"
+  );
+  assertEquals(target.llvmSuffix, "-18");
+  assertEquals(target.makeVars, ["ARCH=arm64", "LLVM=-18", "LLVM_IAS=0"]);
+});
+
+Deno.test("resolveTarget puts the compiler behind ccache", () => {
+  assertEquals(
+    resolveTarget({ version: "6.16", ccache: true }, "x86_64").makeVars,
+    ["CC=ccache gcc"]
+  );
+  assertEquals(
+    resolveTarget({ version: "6.16", arch: "arm64", ccache: true }, "x86_64")
+      .makeVars,
+    [
+      "ARCH=arm64",
+      "CROSS_COMPILE=aarch64-linux-gnu-",
+      "CC=ccache aarch64-linux-gnu-gcc",
+    ]
+  );
+  assertEquals(
+    resolveTarget(
+      { version: "6.16", toolchain: "llvm", llvmVersion: "18", ccache: true },
+      "x86_64"
+    ).makeVars,
+    ["LLVM=-18", "CC=ccache clang-18"]
+  );
+});
+
+Deno.test("resolveBuildPaths resolves --out-dir against the work dir", () => {
+  const source = resolveSource({ version: "6.16.y" });
+  assertEquals(resolveBuildPaths({ version: "6.16.y" }, source, "/work"), {
+    srcDir: "/work/linux-stable",
+    buildDir: "/work/linux-stable",
+    cacheDir: undefined,
+    ccacheDir: undefined,
+  });
+  assertEquals(
+    resolveBuildPaths(
+      {
+        version: "6.16.y",
+        outDir: "out/firecracker",
+        ccache: true,
+        ccacheDir: "ccache",
+      },
+      source,
+      "/work"
+    ),
+    {
+      srcDir: "/work/linux-stable",
+      buildDir: "/work/out/firecracker",
+      cacheDir: undefined,
+      ccacheDir: "/work/ccache",
+    }
+  );
+  const cached = resolveBuildPaths(
+    { version: "6.16.y", outDir: "/srv/out", cacheDir: "cache" },
+    source,
+    "/work"
+  );
+  assertEquals(cached.buildDir, "/srv/out");
+  assertEquals(cached.cacheDir, "/work/cache");
+  assertEquals(cached.srcDir.startsWith("/work/cache/"), true);
+  assertEquals(
+    resolveBuildPaths(
+      { version: "6.16.2", source: "tarball", outDir: "out" },
+      resolveSource({ version: "6.16.2" }),
+      "/work"
+    ).srcDir,
+    "/work/linux-6.16.2"
+  );
+});
+
+Deno.test("hasInTreeBuild detects configured source trees", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    assertEquals(await hasInTreeBuild(dir), false);
+    await Deno.mkdir(`${dir}/include/config`, { recursive: true });
+    assertEquals(await hasInTreeBuild(dir), true);
+    await Deno.remove(`${dir}/include`, { recursive: true });
+    await Deno.writeTextFile(`${dir}/.config`, "CONFIG_64BIT=y\n");
+    assertEquals(await hasInTreeBuild(dir), true);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("updateCheckout reports the commit it checked out", async () => {
+  const dir = await Deno.makeTempDir();
+  const git = async (cwd: string, ...args: string[]) => {
+    const { code, stdout } = await new Deno.Command("git", {
+      args: [
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        ...args,
+      ],
+      cwd,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    assertEquals(code, 0);
+    return new TextDecoder().decode(stdout).trim();
+  };
+  const origin = `${dir}/origin`;
+  const srcDir = `${dir}/linux-stable`;
+  try {
+    await Deno.mkdir(origin);
+    await git(origin, "init", "-q", "-b", "master");
+    await git(origin, "commit", "-q", "--allow-empty", "-m", "6.16");
+    await git(origin, "branch", "linux-6.1.y");
+    await git(dir, "clone", "-q", origin, srcDir);
+    await git(origin, "checkout", "-q", "linux-6.1.y");
+    await git(origin, "commit", "-q", "--allow-empty", "-m", "6.1.155");
+    const head = await git(origin, "rev-parse", "HEAD");
+
+    // linux-6.1.y is not local yet: the pending commit is unknown, but the
+    // checked-out one is not
+    const pending: string[] = [];
+    const record = (commit: string) => {
+      pending.push(commit);
+      return Promise.resolve();
+    };
+    assertEquals(await updateCheckout(srcDir, "linux-6.1.y", record), head);
+    assertEquals(pending, [""]);
+    assertEquals(await updateCheckout(srcDir, "linux-6.1.y", record), head);
+    assertEquals(pending, ["", head]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
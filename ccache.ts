@@ -0,0 +1,88 @@
+/**
+ * ccache support: compiler invocations go through `ccache` (CC="ccache gcc"),
+ * with the cache in a directory that outlives the build (a CI cache or the
+ * Docker volume mounted at /app).
+ */
+
+/**
+ * Cache directory: $CCACHE_DIR, else .ccache in the working directory
+ */
+export function defaultCcacheDir(workDir: string): string {
+  return Deno.env.get("CCACHE_DIR") ?? `${workDir}/.ccache`;
+}
+
+/**
+ * Compilations served from the cache and compiled for real
+ */
+export interface CcacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Parse `ccache --print-stats` (ccache 4.x: one tab-separated counter per
+ * line). Direct and preprocessed hits both count as hits.
+ *
+ * @returns undefined when the output has none of the hit and miss counters
+ */
+export function parseCcacheStats(output: string): CcacheStats | undefined {
+  const counters: Record<string, number> = {};
+  for (const line of output.split("\n")) {
+    const [key, value] = line.trim().split(/\t+/);
+    if (key && /^\d+$/.test(value ?? "")) counters[key] = Number(value);
+  }
+  const keys = ["direct_cache_hit", "preprocessed_cache_hit", "cache_miss"];
+  if (!keys.some((key) => key in counters)) return undefined;
+  return {
+    hits:
+      (counters.direct_cache_hit ?? 0) + (counters.preprocessed_cache_hit ?? 0),
+    misses: counters.cache_miss ?? 0,
+  };
+}
+
+/**
+ * Read the counters of a cache directory
+ *
+ * @returns undefined when ccache is missing or cannot print them (ccache 3.x
+ *   has no --print-stats)
+ */
+export async function readCcacheStats(
+  cacheDir: string
+): Promise<CcacheStats | undefined> {
+  try {
+    const { success, stdout } = await new Deno.Command("ccache", {
+      args: ["--print-stats"],
+      env: { CCACHE_DIR: cacheDir },
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    if (!success) return undefined;
+    return parseCcacheStats(new TextDecoder().decode(stdout));
+  } catch {
+    // ccache not installed
+    return undefined;
+  }
+}
+
+/**
+ * Counters of one build, from the cache's counters before and after it (the
+ * cache may be shared, so it is never zeroed)
+ */
+export function diffCcacheStats(
+  before: CcacheStats,
+  after: CcacheStats
+): CcacheStats {
+  return {
+    hits: after.hits - before.hits,
+    misses: after.misses - before.misses,
+  };
+}
+
+/**
+ * One line: hits, misses and hit rate
+ */
+export function formatCcacheStats(stats: CcacheStats): string {
+  const total = stats.hits + stats.misses;
+  const rate = total > 0 ? ((stats.hits / total) * 100).toFixed(1) : "0.0";
+  return `ccache: ${stats.hits} hits, ${stats.misses} misses (${rate}% hit rate)`;
+}
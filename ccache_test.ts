@@ -0,0 +1,105 @@
+import { assertEquals } from "@std/assert";
+import {
+  diffCcacheStats,
+  formatCcacheStats,
+  parseCcacheStats,
+  readCcacheStats,
+} from "./build.ts";
+
+// `ccache --print-stats` of ccache 4.9 after a build
+const PRINT_STATS = `autoconf_test\t0
+bad_compiler_arguments\t0
+bad_input_file\t0
+bad_output_file\t0
+cache_miss\t10
+cache_size_kibibyte\t2312
+called_for_link\t3
+called_for_preprocessing\t41
+cleanups_performed\t0
+compile_failed\t0
+compiler_check_failed\t0
+compiler_produced_empty_output\t0
+compiler_produced_no_output\t0
+compiler_produced_stdout\t0
+could_not_find_compiler\t0
+could_not_use_modules\t0
+could_not_use_precompiled_header\t0
+direct_cache_hit\t5
+direct_cache_miss\t12
+disabled\t0
+error_hashing_extra_file\t0
+files_in_cache\t30
+internal_error\t0
+local_storage_hit\t7
+local_storage_miss\t10
+local_storage_read_hit\t14
+local_storage_read_miss\t22
+local_storage_write\t20
+missing_cache_file\t0
+modified_input_file\t0
+multiple_source_files\t0
+no_input_file\t0
+output_to_stdout\t0
+preprocessed_cache_hit\t2
+preprocessed_cache_miss\t10
+preprocessor_error\t0
+recache\t0
+remote_storage_error\t0
+remote_storage_hit\t0
+remote_storage_miss\t0
+remote_storage_read_hit\t0
+remote_storage_read_miss\t0
+remote_storage_timeout\t0
+remote_storage_write\t0
+stats_updated_timestamp\t1760000000
+stats_zeroed_timestamp\t0
+unsupported_code_directive\t0
+unsupported_compiler_option\t1
+unsupported_environment_variable\t0
+unsupported_source_language\t0
+`;
+
+Deno.test("parseCcacheStats reads ccache 4 --print-stats", () => {
+  assertEquals(parseCcacheStats(PRINT_STATS), { hits: 7, misses: 10 });
+  // ccache 3.x has no --print-stats: its usage text holds no counters
+  assertEquals(
+    parseCcacheStats("ccache: invalid option -- '-'\nUsage:\n"),
+    undefined
+  );
+});
+
+Deno.test("ccache stats are reported per build", () => {
+  const stats = diffCcacheStats(
+    { hits: 100, misses: 40 },
+    { hits: 1090, misses: 50 }
+  );
+  assertEquals(stats, { hits: 990, misses: 10 });
+  assertEquals(
+    formatCcacheStats(stats),
+    "ccache: 990 hits, 10 misses (99.0% hit rate)"
+  );
+  assertEquals(
+    formatCcacheStats({ hits: 0, misses: 0 }),
+    "ccache: 0 hits, 0 misses (0.0% hit rate)"
+  );
+});
+
+Deno.test("readCcacheStats checks the exit status of ccache", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = Deno.env.get("PATH") ?? "";
+  // A ccache 3.x stand-in: --print-stats is an unknown option
+  const ccache = async (script: string) => {
+    await Deno.writeTextFile(`${dir}/ccache`, `#!/bin/sh\n${script}\n`);
+    await Deno.chmod(`${dir}/ccache`, 0o755);
+  };
+  Deno.env.set("PATH", `${dir}:${path}`);
+  try {
+    await ccache("echo \"ccache: invalid option -- '-'\" >&2; exit 1");
+    assertEquals(await readCcacheStats(dir), undefined);
+    await ccache(`printf 'direct_cache_hit\\t3\\ncache_miss\\t1\\n'`);
+    assertEquals(await readCcacheStats(dir), { hits: 3, misses: 1 });
+  } finally {
+    Deno.env.set("PATH", path);
+    await Deno.remove(dir, { recursive: true });
+  }
+});
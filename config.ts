@@ -1,5 +1,15 @@
 import * as toml from "@std/toml";
+import * as yaml from "@std/yaml";
 import z from "@zod/zod";
+import * as archConfigs from "./arch-configs.ts";
+import defaultConfig from "./default-config.ts";
+import {
+  type Kconfig,
+  KconfigExpression,
+  type KconfigExpr,
+  kconfigValueOf,
+} from "./kconfig.ts";
+import * as profileConfigs from "./profile-configs.ts";
 
 /**
  * Zod schema for Linux Kernel Configuration (.config) files
@@ -50,6 +60,7 @@ const ConfigSectionSchema: z.ZodType<ConfigSection> = z.lazy(() =>
 // Main kernel config schema
 export const KernelConfigSchema: z.ZodType<{
   version?: string | undefined;
+  arch?: string | undefined;
   buildInfo?:
     | {
         compiler?: string | undefined;
@@ -60,7 +71,8 @@ export const KernelConfigSchema: z.ZodType<{
   sections: ConfigSection[];
   flatConfig: Record<string, ConfigValue | undefined>;
 }> = z.object({
-  version: z.string().optional(),
+  version: z.string().optional(), // Kernel version from the header (e.g. 6.6.100)
+  arch: z.string().optional(), // Kconfig arch from the header (e.g. x86, arm64)
   buildInfo: z
     .object({
       compiler: z.string().optional(),
@@ -148,6 +160,10 @@ export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type NetworkingConfig = z.infer<typeof NetworkingConfigSchema>;
 export type FilesystemConfig = z.infer<typeof FilesystemConfigSchema>;
 
+// Header line written by kconfig: "# Linux/x86 6.6.100 Kernel Configuration"
+const HEADER_VERSION_REGEX = /^#\s*Linux\/(\S+)\s+(\S+)\s+Kernel Configuration/;
+const HEADER_GENERATED = "# Automatically generated file; DO NOT EDIT.";
+
 /**
  * Parser for Linux kernel .config files
  */
@@ -161,12 +177,23 @@ export class KernelConfigParser {
     const sections: ConfigSection[] = [];
     let currentSection: ConfigSection | undefined = undefined;
     const sectionStack: ConfigSection[] = [];
+    let version: string | undefined;
+    let arch: string | undefined;
 
     for (const line of lines) {
       const trimmed = line.trim();
 
       if (!trimmed) continue;
 
+      // Header lines are metadata, not sections
+      const headerMatch = trimmed.match(HEADER_VERSION_REGEX);
+      if (headerMatch) {
+        arch = headerMatch[1];
+        version = headerMatch[2];
+        continue;
+      }
+      if (trimmed === HEADER_GENERATED) continue;
+
       if (trimmed.startsWith("#") && !trimmed.includes("CONFIG_")) {
         const sectionMatch = trimmed.match(/^#\s*(.+)$/);
         if (sectionMatch) {
@@ -203,58 +230,13 @@ export class KernelConfigParser {
         continue;
       }
 
-      // Disabled option: # CONFIG_* is not set
-      const disabledMatch = trimmed.match(/^#\s*(CONFIG_\w+)\s+is not set/);
-      if (disabledMatch) {
-        const key = disabledMatch[1];
-        flatConfig[key] = undefined;
-
-        const entry: ConfigEntry = {
-          key,
-          value: undefined,
-          comment: "is not set",
-        };
-
-        if (currentSection) {
-          currentSection.entries.push(entry);
-        }
-        continue;
-      }
-
-      // Enabled option: CONFIG_*=value
-      const enabledMatch = trimmed.match(/^(CONFIG_\w+)=(.+)$/);
-      if (enabledMatch) {
-        const key = enabledMatch[1];
-        let value: ConfigValue;
-        const rawValue = enabledMatch[2];
-
-        // Parse value type
-        if (rawValue === "y") {
-          value = "y";
-        } else if (rawValue === "m") {
-          value = "m";
-        } else if (rawValue === "n") {
-          value = "n";
-        } else if (rawValue.match(/^-?\d+$/)) {
-          value = parseInt(rawValue, 10);
-        } else if (rawValue.match(/^0x[0-9a-fA-F]+$/)) {
-          value = parseInt(rawValue, 16);
-        } else {
-          // String value (remove quotes if present)
-          value = rawValue.replace(/^"(.*)"$/, "$1");
-        }
-
-        flatConfig[key] = value;
-
-        const entry: ConfigEntry = {
-          key,
-          value,
-        };
+      const entry = this.parseEntry(trimmed);
+      if (entry) {
+        flatConfig[entry.key] = entry.value;
 
         if (currentSection) {
           currentSection.entries.push(entry);
         }
-        continue;
       }
     }
 
@@ -268,12 +250,58 @@ export class KernelConfigParser {
     };
 
     return {
+      ...(version ? { version } : {}),
+      ...(arch ? { arch } : {}),
       buildInfo,
       sections,
       flatConfig,
     };
   }
 
+  /**
+   * Parse a single `CONFIG_*=value` or `# CONFIG_* is not set` line
+   */
+  static parseEntry(line: string): ConfigEntry | undefined {
+    const trimmed = line.trim();
+
+    // Disabled option: # CONFIG_* is not set
+    const disabledMatch = trimmed.match(/^#\s*(CONFIG_\w+)\s+is not set/);
+    if (disabledMatch) {
+      return {
+        key: disabledMatch[1],
+        value: undefined,
+        comment: "is not set",
+      };
+    }
+
+    // Enabled option: CONFIG_*=value
+    const enabledMatch = trimmed.match(/^(CONFIG_\w+)=(.+)$/);
+    if (!enabledMatch) return undefined;
+
+    const key = enabledMatch[1];
+    let value: ConfigValue;
+    const rawValue = enabledMatch[2];
+
+    // Parse value type
+    if (rawValue === "y") {
+      value = "y";
+    } else if (rawValue === "m") {
+      value = "m";
+    } else if (rawValue === "n") {
+      value = "n";
+    } else if (rawValue.match(/^-?\d+$/)) {
+      value = parseInt(rawValue, 10);
+    } else if (rawValue.match(/^0x[0-9a-fA-F]+$/)) {
+      value = parseInt(rawValue, 16);
+    } else {
+      // String value (remove quotes if present, and their escapes)
+      const quoted = rawValue.match(/^"(.*)"$/);
+      value = quoted ? quoted[1].replace(/\\(.)/g, "$1") : rawValue;
+    }
+
+    return { key, value };
+  }
+
   /**
    * Extract specific config category
    */
@@ -359,19 +387,43 @@ export class KernelConfigParser {
     // Add header
     if (opts.addHeader) {
       lines.push("#");
-      lines.push("# Automatically generated file; DO NOT EDIT.");
-
+      lines.push(HEADER_GENERATED);
+
+      if (config.version) {
+        lines.push(
+          `# Linux${config.arch ? `/${config.arch}` : ""} ${
+            config.version
+          } Kernel Configuration`
+        );
+      }
       if (config.buildInfo?.compiler) {
         lines.push(`# ${config.buildInfo.compiler}`);
       }
-      if (config.buildInfo?.buildSalt) {
-        lines.push(`# Linux Kernel Configuration`);
-      }
       lines.push("#");
       lines.push("");
     }
 
     if (opts.preserveSections && config.sections.length > 0) {
+      // Top-level symbols (outside any section) first, e.g. the
+      // toolchain-derived ones right after the header
+      const inSections = new Set<string>();
+      const collect = (sections: ConfigSection[]) => {
+        for (const section of sections) {
+          section.entries.forEach((entry) => inSections.add(entry.key));
+          collect(section.subsections ?? []);
+        }
+      };
+      collect(config.sections);
+      this.serializeFlatConfig(
+        lines,
+        Object.fromEntries(
+          Object.entries(config.flatConfig).filter(
+            ([key]) => !inSections.has(key)
+          )
+        ),
+        opts
+      );
+
       // Serialize with section structure
       this.serializeSections(lines, config.sections, 0, opts);
     } else {
@@ -447,11 +499,10 @@ export class KernelConfigParser {
       lines.push(`${key}=${value}`);
     } else if (typeof value === "string") {
       const needsQuotes =
-        value.includes(" ") ||
-        value.includes("#") ||
-        value.includes("=") ||
-        opts.formatStyle === "quoted";
-      const formatted = needsQuotes ? `"${value}"` : value;
+        /[ #="\\]/.test(value) || opts.formatStyle === "quoted";
+      const formatted = needsQuotes
+        ? `"${value.replace(/(["\\])/g, "\\$1")}"`
+        : value;
       lines.push(`${key}=${formatted}`);
     }
 
@@ -564,14 +615,49 @@ export class KernelConfigDeserializer {
   static fromTOML(tomlString: string): KernelConfig {
     try {
       const data = toml.parse(tomlString);
-      return KernelConfigDeserializer.fromObject(
-        data as Record<string, string | number | boolean | undefined>
-      );
+      return KernelConfigDeserializer.fromStructured(data);
     } catch (error) {
       throw new Error(`Failed to deserialize TOML: ${error}`);
     }
   }
 
+  /**
+   * Deserialize from YAML (the format written by `toYAML`, or flat keys)
+   */
+  static fromYAML(yamlString: string): KernelConfig {
+    try {
+      const data = yaml.parse(yamlString);
+      return KernelConfigDeserializer.fromStructured(
+        (data ?? {}) as Record<string, unknown>
+      );
+    } catch (error) {
+      throw new Error(`Failed to deserialize YAML: ${error}`);
+    }
+  }
+
+  /**
+   * Accept either flat CONFIG_* keys or the `{ version, arch, buildInfo,
+   * config }` layout written by `toTOML`/`toYAML`
+   */
+  private static fromStructured(data: Record<string, unknown>): KernelConfig {
+    const { config, version, arch, buildInfo } = data;
+    const isTable = (value: unknown): value is Record<string, unknown> =>
+      typeof value === "object" && value !== null && !Array.isArray(value);
+
+    const result = KernelConfigDeserializer.fromObject(
+      (isTable(config) ? config : data) as Record<
+        string,
+        ConfigValue | undefined
+      >
+    );
+    if (typeof version === "string") result.version = version;
+    if (typeof arch === "string") result.arch = arch;
+    if (isTable(buildInfo)) {
+      result.buildInfo = buildInfo as KernelConfig["buildInfo"];
+    }
+    return result;
+  }
+
   /**
    * Deserialize from YAML-like format
    */
@@ -584,7 +670,11 @@ export class KernelConfigDeserializer {
       if (key.startsWith("CONFIG_")) {
         if (value === true) {
           flatConfig[key] = "y";
-        } else if (value === false || value === undefined) {
+        } else if (
+          value === false ||
+          value === undefined ||
+          (value as unknown) === null
+        ) {
           flatConfig[key] = undefined;
         } else if (value === "y" || value === "m" || value === "n") {
           flatConfig[key] = value;
@@ -627,6 +717,8 @@ export class KernelConfigSerializer {
    */
   static toTOML(config: KernelConfig): string {
     const tomlObj: Record<string, unknown> = {
+      ...(config.version ? { version: config.version } : {}),
+      ...(config.arch ? { arch: config.arch } : {}),
       buildInfo: config.buildInfo || {},
       config: config.flatConfig,
     };
@@ -667,6 +759,13 @@ export class KernelConfigSerializer {
     const lines: string[] = [];
     lines.push("---");
 
+    if (config.version) {
+      lines.push(`version: "${config.version}"`);
+    }
+    if (config.arch) {
+      lines.push(`arch: "${config.arch}"`);
+    }
+
     if (config.buildInfo) {
       lines.push("buildInfo:");
       if (config.buildInfo.compiler) {
@@ -685,10 +784,10 @@ export class KernelConfigSerializer {
 
     for (const [key, value] of Object.entries(config.flatConfig)) {
       const yamlValue =
-        value === null
+        value === null || value === undefined
           ? "null"
           : typeof value === "string"
-          ? `"${value}"`
+          ? JSON.stringify(value)
           : value;
       lines.push(`  ${key}: ${yamlValue}`);
     }
@@ -799,6 +898,1010 @@ export class KernelConfigSerializer {
   }
 }
 
+/**
+ * One line of a config file, kept verbatim
+ */
+export type ConfigLine =
+  | { kind: "entry"; raw: string; key: string; value?: ConfigValue }
+  | { kind: "comment"; raw: string }
+  | { kind: "blank"; raw: string };
+
+/**
+ * Lossless (concrete syntax tree) view of a .config file: every line is kept
+ * verbatim, so parse -> edit -> toString() only changes the edited lines
+ */
+export class KernelConfigDocument {
+  private constructor(readonly lines: ConfigLine[]) {}
+
+  /**
+   * Parse content without dropping headers, comments or blank lines
+   */
+  static parse(content: string): KernelConfigDocument {
+    // Split on \n only: a \r of CRLF files stays part of the raw line.
+    const lines = content.split("\n").map((raw): ConfigLine => {
+      const entry = KernelConfigParser.parseEntry(raw);
+      if (entry) {
+        return { kind: "entry", raw, key: entry.key, value: entry.value };
+      }
+      return raw.trim() ? { kind: "comment", raw } : { kind: "blank", raw };
+    });
+    return new KernelConfigDocument(lines);
+  }
+
+  /**
+   * Format a value as a .config line (undefined or "n": is not set; hex and
+   * integer strings such as "0x1000000" are written unquoted unless `quoted`,
+   * for `string` symbols, whose values Kconfig only reads quoted)
+   */
+  static formatEntry(
+    key: string,
+    value: ConfigValue | undefined,
+    quoted = false
+  ): string {
+    if (value === undefined || value === false || value === "n") {
+      return `# ${key} is not set`;
+    }
+    if (value === true) return `${key}=y`;
+    if (!quoted && (value === "y" || value === "m")) return `${key}=${value}`;
+    const text = String(value);
+    if (!quoted && /^(0x[0-9a-fA-F]+|-?\d+)$/.test(text)) {
+      return `${key}=${text}`;
+    }
+    return `${key}="${text.replace(/(["\\])/g, "\\$1")}"`;
+  }
+
+  /**
+   * Whether a .config line assigns a quoted (string) value
+   */
+  static isQuoted(raw: string): boolean {
+    return /^\s*CONFIG_\w+="/.test(raw);
+  }
+
+  /**
+   * Effective value of a symbol (the last assignment wins)
+   */
+  get(key: string): ConfigValue | undefined {
+    return this.findLast(key)?.value;
+  }
+
+  /**
+   * Whether the symbol is assigned or explicitly not set
+   */
+  has(key: string): boolean {
+    return this.findLast(key) !== undefined;
+  }
+
+  /**
+   * Set a symbol, rewriting its effective line in place or appending it
+   */
+  set(key: string, value: ConfigValue | undefined): this {
+    const existing = this.findLast(key);
+    if (existing) {
+      const cr = existing.raw.endsWith("\r") ? "\r" : "";
+      // A string symbol stays quoted whatever its new value looks like
+      const raw = `${KernelConfigDocument.formatEntry(
+        key,
+        value,
+        KernelConfigDocument.isQuoted(existing.raw)
+      )}${cr}`;
+      if (raw !== existing.raw) {
+        this.lines[this.lines.indexOf(existing)] = {
+          kind: "entry",
+          raw,
+          key,
+          value,
+        };
+      }
+      return this;
+    }
+
+    const line: ConfigLine = {
+      kind: "entry",
+      raw: KernelConfigDocument.formatEntry(key, value),
+      key,
+      value,
+    };
+    // Keep the trailing newline: insert before the final empty line.
+    const last = this.lines[this.lines.length - 1];
+    if (last && last.kind === "blank" && last.raw === "") {
+      this.lines.splice(this.lines.length - 1, 0, line);
+    } else {
+      this.lines.push(line);
+    }
+    return this;
+  }
+
+  /**
+   * Mark a symbol `# CONFIG_* is not set`
+   */
+  unset(key: string): this {
+    return this.set(key, undefined);
+  }
+
+  /**
+   * Remove every line assigning the symbol
+   */
+  delete(key: string): this {
+    for (let i = this.lines.length - 1; i >= 0; i--) {
+      const line = this.lines[i];
+      if (line.kind === "entry" && line.key === key) {
+        this.lines.splice(i, 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Symbols in file order (each listed once)
+   */
+  keys(): string[] {
+    const keys = new Set<string>();
+    for (const line of this.lines) {
+      if (line.kind === "entry") keys.add(line.key);
+    }
+    return [...keys];
+  }
+
+  /**
+   * Structured view of the current content
+   */
+  toConfig(): KernelConfig {
+    return KernelConfigParser.parse(this.toString());
+  }
+
+  toString(): string {
+    return this.lines.map((line) => line.raw).join("\n");
+  }
+
+  private findLast(
+    key: string
+  ): Extract<ConfigLine, { kind: "entry" }> | undefined {
+    for (let i = this.lines.length - 1; i >= 0; i--) {
+      const line = this.lines[i];
+      if (line.kind === "entry" && line.key === key) return line;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Kind of change between two configs
+ */
+export type ConfigChangeKind =
+  | "added" // missing before
+  | "removed" // missing after
+  | "enabled" // is not set -> value
+  | "disabled" // value -> is not set
+  | "builtin-to-module" // y -> m
+  | "module-to-builtin" // m -> y
+  | "value-changed"; // any other value change
+
+/**
+ * State of a symbol in one config: set to a value, explicitly
+ * `# CONFIG_* is not set`, or not mentioned at all
+ */
+export type ConfigSymbolState = "set" | "unset" | "missing";
+
+/**
+ * A typed change record
+ */
+export interface ConfigChange {
+  key: string;
+  kind: ConfigChangeKind;
+  oldState: ConfigSymbolState;
+  newState: ConfigSymbolState;
+  oldValue?: ConfigValue;
+  newValue?: ConfigValue;
+  /** Section path the symbol lives in (empty at top level) */
+  section: string[];
+}
+
+/**
+ * Semantic diff between two configs, similar to scripts/diffconfig
+ */
+export class KernelConfigDiff {
+  /**
+   * Compute the typed changes from `oldConfig` to `newConfig`
+   */
+  static compare(
+    oldConfig: KernelConfig,
+    newConfig: KernelConfig
+  ): ConfigChange[] {
+    const sections = {
+      ...this.sectionIndex(oldConfig.sections),
+      ...this.sectionIndex(newConfig.sections),
+    };
+    const keys = new Set([
+      ...Object.keys(oldConfig.flatConfig),
+      ...Object.keys(newConfig.flatConfig),
+    ]);
+    const changes: ConfigChange[] = [];
+
+    for (const key of [...keys].sort()) {
+      const oldState = this.stateOf(oldConfig, key);
+      const newState = this.stateOf(newConfig, key);
+      const oldValue = oldConfig.flatConfig[key];
+      const newValue = newConfig.flatConfig[key];
+
+      let kind: ConfigChangeKind;
+      if (oldState === "missing") {
+        kind = "added";
+      } else if (newState === "missing") {
+        kind = "removed";
+      } else if (oldState === "unset" && newState === "unset") {
+        continue;
+      } else if (oldState === "unset") {
+        kind = "enabled";
+      } else if (newState === "unset") {
+        kind = "disabled";
+      } else if (oldValue === newValue) {
+        continue;
+      } else if (oldValue === "y" && newValue === "m") {
+        kind = "builtin-to-module";
+      } else if (oldValue === "m" && newValue === "y") {
+        kind = "module-to-builtin";
+      } else {
+        kind = "value-changed";
+      }
+
+      changes.push({
+        key,
+        kind,
+        oldState,
+        newState,
+        ...(oldState === "set" ? { oldValue } : {}),
+        ...(newState === "set" ? { newValue } : {}),
+        section: sections[key] ?? [],
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Group changes by section path (joined with " > "; "" for top level)
+   */
+  static groupBySection(
+    changes: ConfigChange[]
+  ): Record<string, ConfigChange[]> {
+    const groups: Record<string, ConfigChange[]> = {};
+    for (const change of changes) {
+      const name = change.section.join(" > ");
+      (groups[name] ??= []).push(change);
+    }
+    return groups;
+  }
+
+  /**
+   * Render like scripts/diffconfig: `-FOO y`, `+BAR m`, ` BAZ y -> m`
+   */
+  static toText(changes: ConfigChange[]): string {
+    return changes
+      .map((change) => {
+        const name = change.key.replace(/^CONFIG_/, "");
+        const oldValue = this.formatState(change.oldState, change.oldValue);
+        const newValue = this.formatState(change.newState, change.newValue);
+        if (change.kind === "removed") return `-${name} ${oldValue}`;
+        if (change.kind === "added") return `+${name} ${newValue}`;
+        return ` ${name} ${oldValue} -> ${newValue}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Render as JSON, grouped by section
+   */
+  static toJSON(changes: ConfigChange[], pretty: boolean = true): string {
+    const grouped = this.groupBySection(changes);
+    return pretty ? JSON.stringify(grouped, null, 2) : JSON.stringify(grouped);
+  }
+
+  /**
+   * Render as Markdown tables, one per section
+   */
+  static toMarkdown(changes: ConfigChange[]): string {
+    const lines: string[] = [];
+    for (const [section, group] of Object.entries(
+      this.groupBySection(changes)
+    )) {
+      if (lines.length > 0) lines.push("");
+      lines.push(`### ${section || "Top level"}`);
+      lines.push("");
+      lines.push("| Symbol | Change | Old | New |");
+      lines.push("| --- | --- | --- | --- |");
+      for (const change of group) {
+        const oldValue = this.formatState(change.oldState, change.oldValue);
+        const newValue = this.formatState(change.newState, change.newValue);
+        lines.push(
+          `| \`${change.key}\` | ${change.kind} | ${this.escapeCell(
+            oldValue
+          )} | ${this.escapeCell(newValue)} |`
+        );
+      }
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Render as a unified diff against the old .config: the changes are applied
+   * to `oldContent` as KernelConfigDocument edits would (values rewritten in
+   * place, new symbols appended, removed ones deleted), and every hunk has
+   * real line offsets and three lines of context, so `patch` and `git apply`
+   * take it. Hunk headers name the section of their first change.
+   */
+  static toUnifiedDiff(
+    changes: ConfigChange[],
+    oldContent: string,
+    oldName: string = "a/.config",
+    newName: string = "b/.config"
+  ): string {
+    const context = 3;
+    const oldLines = oldContent.split("\n");
+    // A trailing newline ends the last line rather than starting a new one
+    const newline = oldLines[oldLines.length - 1] === "";
+    if (newline) oldLines.pop();
+    const cr = oldLines.some((line) => line.endsWith("\r")) ? "\r" : "";
+    const keyOf = (line: string) => KernelConfigParser.parseEntry(line)?.key;
+
+    // What becomes of each old line (with the section of its change), and
+    // the lines appended at the end
+    type Edit = { text: string; section: string };
+    const replaced = new Map<number, Edit>();
+    const deleted = new Map<number, string>();
+    const appended: Edit[] = [];
+    for (const change of changes) {
+      const section = change.section.join(" > ");
+      if (change.newState === "missing") {
+        oldLines.forEach((line, index) => {
+          if (keyOf(line) === change.key) deleted.set(index, section);
+        });
+        continue;
+      }
+      const index = oldLines.findLastIndex(
+        (line) => keyOf(line) === change.key
+      );
+      const text = `${KernelConfigDocument.formatEntry(
+        change.key,
+        change.newState === "set" ? change.newValue : undefined,
+        index !== -1 && KernelConfigDocument.isQuoted(oldLines[index])
+      )}${cr}`;
+      if (index === -1) appended.push({ text, section });
+      else if (oldLines[index] !== text) replaced.set(index, { text, section });
+    }
+    // Appending to a file without a trailing newline ends its last line
+    const lastLine = oldLines.length - 1;
+    if (!newline && appended.length > 0 && !replaced.has(lastLine)) {
+      replaced.set(lastLine, { text: oldLines[lastLine], section: "" });
+    }
+
+    // Edit script: context (" "), removed ("-") and added ("+") lines
+    const script: { op: " " | "-" | "+"; text: string; section?: string }[] =
+      [];
+    oldLines.forEach((text, index) => {
+      const edit = replaced.get(index);
+      if (deleted.has(index)) {
+        script.push({ op: "-", text, section: deleted.get(index) });
+      } else if (edit) {
+        script.push({ op: "-", text, section: edit.section });
+        script.push({ op: "+", ...edit });
+      } else {
+        script.push({ op: " ", text });
+      }
+    });
+    for (const edit of appended) script.push({ op: "+", ...edit });
+
+    const lines = [`--- ${oldName}`, `+++ ${newName}`];
+    const changed = script
+      .map((entry, index) => (entry.op === " " ? -1 : index))
+      .filter((index) => index !== -1);
+    // Line numbers (1-based) each script entry starts at, per side
+    const oldAt: number[] = [];
+    const newAt: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const entry of script) {
+      oldAt.push(oldLine);
+      newAt.push(newLine);
+      if (entry.op !== "+") oldLine++;
+      if (entry.op !== "-") newLine++;
+    }
+    const oldTotal = oldLine - 1;
+    const newTotal = newLine - 1;
+
+    let next = 0;
+    while (next < changed.length) {
+      // Changes closer than twice the context share a hunk
+      let last = next;
+      while (
+        last + 1 < changed.length &&
+        changed[last + 1] - changed[last] <= 2 * context + 1
+      ) {
+        last++;
+      }
+      const from = Math.max(0, changed[next] - context);
+      const to = Math.min(script.length, changed[last] + context + 1);
+      const hunk = script.slice(from, to);
+      const oldCount = hunk.filter((entry) => entry.op !== "+").length;
+      const newCount = hunk.filter((entry) => entry.op !== "-").length;
+      // An empty side starts at the line before it
+      const oldStart = oldCount === 0 ? oldAt[from] - 1 : oldAt[from];
+      const newStart = newCount === 0 ? newAt[from] - 1 : newAt[from];
+      const section = script[changed[next]].section;
+      lines.push(
+        `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${
+          section ? ` ${section}` : ""
+        }`
+      );
+      hunk.forEach((entry, offset) => {
+        lines.push(`${entry.op}${entry.text}`);
+        if (newline) return;
+        // Without a trailing newline, the last line of a side says so
+        const index = from + offset;
+        const endsOld = entry.op !== "+" && oldAt[index] === oldTotal;
+        const endsNew = entry.op !== "-" && newAt[index] === newTotal;
+        if (endsOld || endsNew) lines.push("\\ No newline at end of file");
+      });
+      next = last + 1;
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private static stateOf(config: KernelConfig, key: string): ConfigSymbolState {
+    if (!(key in config.flatConfig)) return "missing";
+    const value = config.flatConfig[key];
+    return value === undefined || value === "n" ? "unset" : "set";
+  }
+
+  private static sectionIndex(
+    sections: ConfigSection[],
+    path: string[] = [],
+    index: Record<string, string[]> = {}
+  ): Record<string, string[]> {
+    for (const section of sections) {
+      const sectionPath = [...path, section.name];
+      for (const entry of section.entries) {
+        index[entry.key] = sectionPath;
+      }
+      this.sectionIndex(section.subsections ?? [], sectionPath, index);
+    }
+    return index;
+  }
+
+  private static formatState(
+    state: ConfigSymbolState,
+    value: ConfigValue | undefined
+  ): string {
+    if (state === "missing") return "(missing)";
+    if (state === "unset") return "n";
+    return typeof value === "string" && !["y", "m", "n"].includes(value)
+      ? `"${value}"`
+      : String(value);
+  }
+
+  private static escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|");
+  }
+}
+
+/**
+ * A named config fragment (file path, URL or label) and its content
+ */
+export interface ConfigFragment {
+  source: string;
+  content: string;
+}
+
+/**
+ * Where a merged symbol's final value came from
+ */
+export interface ConfigProvenance {
+  key: string;
+  value: ConfigValue | undefined;
+  /** Fragment whose assignment won */
+  source: string;
+  /** Winning line, as written in that fragment */
+  line: string;
+  /** Earlier assignments it replaced, in order */
+  overridden: { source: string; value: ConfigValue | undefined }[];
+}
+
+/**
+ * Result of merging config fragments
+ */
+export interface MergedKernelConfig {
+  config: KernelConfig;
+  provenance: Record<string, ConfigProvenance>;
+}
+
+/**
+ * Layered merge of config fragments with per-symbol provenance
+ */
+export class KernelConfigMerger {
+  /**
+   * Merge fragments in order; later fragments win on conflicting symbols
+   * (the same rule kconfig applies when reading a .config)
+   */
+  static merge(fragments: ConfigFragment[]): MergedKernelConfig {
+    const provenance: Record<string, ConfigProvenance> = {};
+
+    for (const { source, content } of fragments) {
+      for (const line of content.split("\n")) {
+        const entry = KernelConfigParser.parseEntry(line);
+        if (!entry) continue;
+
+        const previous = provenance[entry.key];
+        provenance[entry.key] = {
+          key: entry.key,
+          value: entry.value,
+          source,
+          line: line.trim(),
+          overridden: previous
+            ? [
+                ...previous.overridden,
+                { source: previous.source, value: previous.value },
+              ]
+            : [],
+        };
+      }
+    }
+
+    const merged = { config: { sections: [], flatConfig: {} }, provenance };
+    return {
+      config: KernelConfigParser.parse(this.toConfig(merged)),
+      provenance,
+    };
+  }
+
+  /**
+   * Render a merged config as .config lines, one per symbol. Lines keep the
+   * spelling of the winning fragment so hex values and quoted strings survive.
+   */
+  static toConfig(merged: MergedKernelConfig): string {
+    return Object.values(merged.provenance)
+      .map((entry) => entry.line)
+      .join("\n");
+  }
+
+  /**
+   * Count the symbols each fragment won
+   */
+  static summarize(merged: MergedKernelConfig): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const { source } of Object.values(merged.provenance)) {
+      counts[source] = (counts[source] ?? 0) + 1;
+    }
+    return counts;
+  }
+}
+
+/**
+ * A named config fragment layered over the default config
+ */
+export interface ConfigProfile {
+  name: string;
+  description: string;
+  /** .config lines applied over the base config */
+  fragment: string;
+  /** Extra .config lines for one default config arch, after `fragment` */
+  archFragments?: Partial<Record<DefaultConfigArch, string>>;
+}
+
+/**
+ * Registry of config profiles. The built-in ones (firecracker,
+ * cloud-hypervisor, qemu-virt, minimal, debug, container-host) are fragments
+ * over default-config.ts; more can be registered at runtime.
+ */
+export class KernelConfigProfiles {
+  private static profiles = new Map<string, ConfigProfile>(
+    [
+      { name: "firecracker", ...profileConfigs.firecracker },
+      { name: "cloud-hypervisor", ...profileConfigs.cloudHypervisor },
+      { name: "qemu-virt", ...profileConfigs.qemuVirt },
+      { name: "minimal", ...profileConfigs.minimal },
+      { name: "debug", ...profileConfigs.debug },
+      { name: "container-host", ...profileConfigs.containerHost },
+    ].map((profile) => [profile.name, profile])
+  );
+
+  static list(): ConfigProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  static names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  static get(name: string): ConfigProfile | undefined {
+    return this.profiles.get(name);
+  }
+
+  /**
+   * Add a profile, replacing any profile of the same name
+   */
+  static register(profile: ConfigProfile): void {
+    this.profiles.set(profile.name, profile);
+  }
+
+  /**
+   * Fragments of the given profiles in order, labelled `profile:<name>`,
+   * with the lines each one has for `arch`
+   */
+  static fragments(
+    names: string[],
+    arch: DefaultConfigArch = "x86_64"
+  ): ConfigFragment[] {
+    return names.map((name) => {
+      const profile = this.get(name);
+      if (!profile) {
+        throw new Error(
+          `Unknown profile '${name}'. Available profiles: ${this.names().join(
+            ", "
+          )}`
+        );
+      }
+      return {
+        source: `profile:${name}`,
+        content: `${profile.fragment}${profile.archFragments?.[arch] ?? ""}`,
+      };
+    });
+  }
+
+  /**
+   * Merge the base config with the given profiles, later profiles winning
+   */
+  static compose(
+    names: string[],
+    base: string = defaultConfig,
+    arch: DefaultConfigArch = "x86_64"
+  ): MergedKernelConfig {
+    return KernelConfigMerger.merge([
+      { source: "default-config.ts", content: base },
+      ...this.fragments(names, arch),
+    ]);
+  }
+}
+
+/** Architectures with a bundled default config */
+export const DEFAULT_CONFIG_ARCHES = ["x86_64", "arm64", "riscv64"] as const;
+
+export type DefaultConfigArch = (typeof DEFAULT_CONFIG_ARCHES)[number];
+
+// Symbol families of default-config.ts that do not depend on the
+// architecture. They make up the common part of every non-x86 default so
+// virtio, networking/netfilter, filesystem and container choices are made
+// once, in default-config.ts.
+const COMMON_SYMBOL_REGEX = new RegExp(
+  "^CONFIG_(" +
+    [
+      // Paravirtualized devices
+      "VIRTIO\\w*",
+      "VHOST\\w*",
+      "VSOCKETS\\w*",
+      "HW_RANDOM_VIRTIO",
+      "SCSI_VIRTIO",
+      "DRM_VIRTIO_GPU",
+      "CRYPTO_DEV_VIRTIO",
+      // Networking and netfilter
+      "NET",
+      "INET",
+      "IPV6",
+      "PACKET",
+      "UNIX",
+      "NETFILTER\\w*",
+      "NF_\\w+",
+      "NFT_\\w+",
+      "IP_NF_\\w+",
+      "IP6_NF_\\w+",
+      "IP_SET\\w*",
+      "IP_VS\\w*",
+      "NET_CLS_\\w+",
+      "BRIDGE\\w*",
+      "VETH",
+      "TUN",
+      "VXLAN",
+      "MACVLAN",
+      "IPVLAN",
+      "DUMMY",
+      // Filesystems
+      "EXT4_FS\\w*",
+      "OVERLAY_FS\\w*",
+      "FUSE_FS",
+      "NET_9P\\w*",
+      "9P_FS\\w*",
+      "TMPFS\\w*",
+      "DEVTMPFS\\w*",
+      "PROC_FS",
+      "SYSFS",
+      // Namespaces and cgroups
+      "NAMESPACES",
+      "\\w+_NS",
+      "CGROUPS",
+      "CGROUP_\\w+",
+      "MEMCG",
+      "BLK_CGROUP",
+      "CPUSETS",
+    ].join("|") +
+    ")$"
+);
+
+// `uname -m` spellings of each architecture
+const MACHINE_ARCHES: Record<string, DefaultConfigArch> = {
+  x86_64: "x86_64",
+  amd64: "x86_64",
+  aarch64: "arm64",
+  arm64: "arm64",
+  riscv64: "riscv64",
+};
+
+/**
+ * Bundled default configs per architecture. x86_64 uses default-config.ts as
+ * is; arm64 and riscv64 layer their arch fragment (arch-configs.ts) over the
+ * arch-independent part of default-config.ts.
+ */
+export class KernelDefaultConfigs {
+  /**
+   * Default config architecture for a machine (`uname -m`), if any
+   */
+  static archFor(machine: string): DefaultConfigArch | undefined {
+    return MACHINE_ARCHES[machine];
+  }
+
+  /**
+   * The arch-independent lines of default-config.ts
+   */
+  static common(): string {
+    return defaultConfig
+      .split("\n")
+      .filter((line) => {
+        const entry = KernelConfigParser.parseEntry(line);
+        return entry !== undefined && COMMON_SYMBOL_REGEX.test(entry.key);
+      })
+      .map((line) => `${line.trim()}\n`)
+      .join("");
+  }
+
+  /**
+   * Default config fragments of an architecture, lowest precedence first
+   */
+  static fragments(arch: DefaultConfigArch): ConfigFragment[] {
+    if (arch === "x86_64") {
+      return [{ source: "default-config.ts", content: defaultConfig }];
+    }
+    return [
+      { source: "default-config:common", content: this.common() },
+      { source: `default-config:${arch}`, content: archConfigs[arch].fragment },
+    ];
+  }
+
+  /**
+   * The default config of an architecture as .config content
+   */
+  static content(arch: DefaultConfigArch): string {
+    if (arch === "x86_64") return defaultConfig;
+    return `${KernelConfigMerger.toConfig(
+      KernelConfigMerger.merge(this.fragments(arch))
+    )}\n`;
+  }
+}
+
+/**
+ * A `depends on` operand that keeps a symbol off (or limits it to m)
+ */
+export interface UnmetDependency {
+  expr: string;
+  value: "n" | "m";
+  /** Symbols the operand refers to, with their own unmet dependencies */
+  symbols: DependencyNode[];
+}
+
+export interface DependencyNode {
+  key: string;
+  value: string;
+  unmet: UnmetDependency[];
+}
+
+/**
+ * A symbol that selects the explained one
+ */
+export interface SelectReason {
+  key: string;
+  value: string;
+  /** `select ... if <condition>` */
+  condition?: string;
+  /** Whether the select currently forces the symbol on */
+  active: boolean;
+}
+
+/**
+ * Why a symbol has its value: Kconfig definition, dependencies, reverse
+ * selects and the config line that set it
+ */
+export interface SymbolExplanation {
+  key: string;
+  value: ConfigValue | undefined;
+  /** Whether any Kconfig file defines the symbol */
+  defined: boolean;
+  type?: string;
+  prompt?: string;
+  /** Definition sites as "path:line" */
+  locations: string[];
+  dependsOn?: { expr: string; value: "n" | "m" | "y" };
+  unmet: UnmetDependency[];
+  selectedBy: SelectReason[];
+  /** Fragment line that set the value (from config-provenance.json) */
+  setBy?: ConfigProvenance;
+}
+
+export interface ExplainOptions {
+  kconfig: Kconfig;
+  provenance?: Record<string, ConfigProvenance>;
+}
+
+const TRISTATE_NAMES = ["n", "m", "y"] as const;
+
+/**
+ * Explain a symbol's value using the tree's Kconfig, like menuconfig's help
+ * screen: its dependency chain, the selects forcing it on, the unmet
+ * `depends on` keeping it off and the fragment line that set it
+ */
+export const explainSymbol = (
+  config: KernelConfig,
+  key: string,
+  options: ExplainOptions
+): SymbolExplanation => {
+  const { kconfig, provenance } = options;
+  const valueOf = kconfigValueOf(config, kconfig);
+  const name = key.replace(/^CONFIG_/, "");
+  const configKey = `CONFIG_${name}`;
+  const symbol = kconfig.symbols[name];
+  const visited = new Set([name]);
+  // $(...) toolchain probes cannot be run here: a symbol that is on passed
+  // those it depends on, one that is off may have failed them
+  const macroLevel = (owner: string) =>
+    ["y", "m"].includes(valueOf(owner) ?? "n") ? 2 : 0;
+
+  // Operands of an expression below y, with why their symbols are off
+  const unmetOf = (
+    expr: KconfigExpr | undefined,
+    owner: string
+  ): UnmetDependency[] => {
+    if (!expr) return [];
+    return KconfigExpression.conjuncts(expr).flatMap((operand) => {
+      const level = KconfigExpression.evaluate(
+        operand,
+        valueOf,
+        macroLevel(owner)
+      );
+      if (level === 2) return [];
+      const symbols = KconfigExpression.symbols(operand)
+        .filter((dep) => kconfig.symbols[dep] && !visited.has(dep))
+        .map((dep) => {
+          visited.add(dep);
+          return {
+            key: `CONFIG_${dep}`,
+            value: valueOf(dep) ?? "n",
+            unmet: unmetOf(kconfig.symbols[dep].dependsOn, dep),
+          };
+        });
+      return [
+        {
+          expr: KconfigExpression.toString(operand),
+          value: TRISTATE_NAMES[level] as "n" | "m",
+          symbols,
+        },
+      ];
+    });
+  };
+
+  const selectedBy = Object.values(kconfig.symbols).flatMap((selector) =>
+    selector.selects
+      .filter((select) => select.symbol === name)
+      .map((select) => {
+        const value = valueOf(selector.name) ?? "n";
+        return {
+          key: `CONFIG_${selector.name}`,
+          value,
+          ...(select.condition && {
+            condition: KconfigExpression.toString(select.condition),
+          }),
+          active:
+            (value === "y" || value === "m") &&
+            (!select.condition ||
+              KconfigExpression.evaluate(select.condition, valueOf) > 0),
+        };
+      })
+  );
+
+  return {
+    key: configKey,
+    value: config.flatConfig[configKey],
+    defined: symbol !== undefined,
+    ...(symbol?.type && { type: symbol.type }),
+    ...(symbol?.prompt !== undefined && { prompt: symbol.prompt }),
+    locations: symbol?.locations ?? [],
+    ...(symbol?.dependsOn && {
+      dependsOn: {
+        expr: KconfigExpression.toString(symbol.dependsOn),
+        value:
+          TRISTATE_NAMES[
+            KconfigExpression.evaluate(
+              symbol.dependsOn,
+              valueOf,
+              macroLevel(name)
+            )
+          ],
+      },
+    }),
+    unmet: unmetOf(symbol?.dependsOn, name),
+    selectedBy,
+    ...(provenance?.[configKey] && { setBy: provenance[configKey] }),
+  };
+};
+
+/**
+ * Render an explanation as indented text
+ */
+export const formatSymbolExplanation = (
+  explanation: SymbolExplanation
+): string => {
+  const show = (value: ConfigValue | undefined) =>
+    value === undefined ? " is not set" : `=${value}`;
+  const lines = [
+    `${explanation.key}${show(explanation.value)}${
+      explanation.type
+        ? ` (${explanation.type}${
+            explanation.prompt ? ` "${explanation.prompt}"` : ""
+          })`
+        : ""
+    }`,
+  ];
+  if (!explanation.defined) {
+    lines.push("  not defined by any Kconfig file of this tree");
+  }
+  for (const location of explanation.locations) {
+    lines.push(`  defined at ${location}`);
+  }
+
+  const unmet = (deps: UnmetDependency[], indent: string) => {
+    for (const dep of deps) {
+      lines.push(`${indent}unmet: ${dep.expr} [=${dep.value}]`);
+      for (const node of dep.symbols) {
+        lines.push(`${indent}  ${node.key}=${node.value}`);
+        unmet(node.unmet, `${indent}    `);
+      }
+    }
+  };
+  if (explanation.dependsOn) {
+    const { expr, value } = explanation.dependsOn;
+    lines.push(`  depends on: ${expr} [=${value}]`);
+    unmet(explanation.unmet, "    ");
+  }
+
+  if (explanation.selectedBy.length > 0) {
+    lines.push("  selected by:");
+    for (const select of explanation.selectedBy) {
+      lines.push(
+        `    ${select.key}=${select.value}${
+          select.condition ? ` if ${select.condition}` : ""
+        }${select.active ? " (active)" : ""}`
+      );
+    }
+  }
+
+  const { setBy } = explanation;
+  if (setBy) {
+    const previous = setBy.overridden.at(-1);
+    lines.push(
+      `  set by ${setBy.source}: ${setBy.line}${
+        previous
+          ? ` (was ${previous.value ?? "is not set"} from ${previous.source})`
+          : ""
+      }`
+    );
+  }
+  return lines.join("\n");
+};
+
 export const validateKernelConfig = (
   data: unknown
 ): ReturnType<typeof KernelConfigSchema.safeParse> => {
@@ -4,8 +4,13 @@
 import { assert, assertEquals, assertExists, assertThrows } from "@std/assert";
 import {
   KernelConfigDeserializer,
+  KernelConfigDiff,
+  KernelConfigDocument,
+  KernelConfigMerger,
   KernelConfigParser,
+  KernelConfigProfiles,
   KernelConfigSerializer,
+  KernelDefaultConfigs,
   type SerializeOptions,
 } from "./config.ts";
 
@@ -255,6 +260,218 @@ Deno.test("detect changed options", () => {
   assert(diff.includes("+ CONFIG_NR_CPUS=128"));
 });
 
+// ============================================================================
+// LOSSLESS DOCUMENT TESTS
+// ============================================================================
+
+Deno.test("document round-trips byte-identical", () => {
+  const content = `${complexConfig}\n# vendor note: keep this\n\n\nCONFIG_PHYSICAL_START=0x1000000\n`;
+  assertEquals(KernelConfigDocument.parse(content).toString(), content);
+});
+
+Deno.test("document edits only touch the edited lines", () => {
+  const content =
+    "#\n# header\n#\r\nCONFIG_SMP=y\r\n# note\r\nCONFIG_NR_CPUS=64\r\n";
+  const doc = KernelConfigDocument.parse(content);
+  doc.set("CONFIG_NR_CPUS", 128).unset("CONFIG_SMP");
+  assertEquals(
+    doc.toString(),
+    "#\n# header\n#\r\n# CONFIG_SMP is not set\r\n# note\r\nCONFIG_NR_CPUS=128\r\n"
+  );
+  assertEquals(doc.get("CONFIG_NR_CPUS"), 128);
+});
+
+Deno.test("document appends new symbols before the trailing newline", () => {
+  const doc = KernelConfigDocument.parse("CONFIG_SMP=y\n");
+  doc.set("CONFIG_LOCALVERSION", "-fc").set("CONFIG_BASE", "0x1000");
+  assertEquals(
+    doc.toString(),
+    'CONFIG_SMP=y\nCONFIG_LOCALVERSION="-fc"\nCONFIG_BASE=0x1000\n'
+  );
+  assertEquals(doc.keys(), [
+    "CONFIG_SMP",
+    "CONFIG_LOCALVERSION",
+    "CONFIG_BASE",
+  ]);
+});
+
+Deno.test("document keeps string symbols quoted", () => {
+  const doc = KernelConfigDocument.parse(
+    'CONFIG_LOCALVERSION=""\nCONFIG_DEFAULT_HOSTNAME="(none)"\nCONFIG_NR_CPUS=64\n'
+  );
+  doc
+    .set("CONFIG_LOCALVERSION", "-1")
+    .set("CONFIG_DEFAULT_HOSTNAME", "0x10")
+    .set("CONFIG_NR_CPUS", "128");
+  assertEquals(
+    doc.toString(),
+    'CONFIG_LOCALVERSION="-1"\nCONFIG_DEFAULT_HOSTNAME="0x10"\nCONFIG_NR_CPUS=128\n'
+  );
+  assertEquals(
+    KernelConfigParser.parse(doc.toString()).flatConfig.CONFIG_LOCALVERSION,
+    "-1"
+  );
+});
+
+Deno.test("document updates the effective (last) assignment", () => {
+  const doc = KernelConfigDocument.parse("CONFIG_A=y\nCONFIG_A=m\n");
+  doc.set("CONFIG_A", "y");
+  assertEquals(doc.toString(), "CONFIG_A=y\nCONFIG_A=y\n");
+  doc.delete("CONFIG_A");
+  assertEquals(doc.toString(), "");
+  assertEquals(doc.has("CONFIG_A"), false);
+});
+
+// ============================================================================
+// SEMANTIC DIFF TESTS
+// ============================================================================
+
+const diffOld = `
+CONFIG_64BIT=y
+
+#
+# General setup
+#
+CONFIG_SMP=y
+CONFIG_NR_CPUS=64
+CONFIG_VIRTIO=y
+# CONFIG_EXPERT is not set
+CONFIG_LOCALVERSION="-old"
+# end of General setup
+`;
+
+const diffNew = `
+#
+# General setup
+#
+CONFIG_SMP=y
+CONFIG_NR_CPUS=128
+CONFIG_VIRTIO=m
+CONFIG_EXPERT=y
+# CONFIG_LOCALVERSION is not set
+# CONFIG_DEBUG is not set
+# end of General setup
+`;
+
+Deno.test("semantic diff classifies changes", () => {
+  const changes = KernelConfigDiff.compare(
+    KernelConfigParser.parse(diffOld),
+    KernelConfigParser.parse(diffNew)
+  );
+  const kinds = Object.fromEntries(changes.map((c) => [c.key, c.kind]));
+  assertEquals(kinds, {
+    CONFIG_64BIT: "removed",
+    CONFIG_DEBUG: "added",
+    CONFIG_EXPERT: "enabled",
+    CONFIG_LOCALVERSION: "disabled",
+    CONFIG_NR_CPUS: "value-changed",
+    CONFIG_VIRTIO: "builtin-to-module",
+  });
+
+  const debug = changes.find((c) => c.key === "CONFIG_DEBUG");
+  assertEquals(debug?.oldState, "missing");
+  assertEquals(debug?.newState, "unset");
+});
+
+Deno.test("semantic diff groups by section", () => {
+  const changes = KernelConfigDiff.compare(
+    KernelConfigParser.parse(diffOld),
+    KernelConfigParser.parse(diffNew)
+  );
+  const groups = KernelConfigDiff.groupBySection(changes);
+  assertEquals(Object.keys(groups), ["", "General setup"]);
+  assertEquals(
+    groups[""].map((c) => c.key),
+    ["CONFIG_64BIT"]
+  );
+});
+
+Deno.test("semantic diff renders text, markdown and unified diff", () => {
+  const changes = KernelConfigDiff.compare(
+    KernelConfigParser.parse(diffOld),
+    KernelConfigParser.parse(diffNew)
+  );
+
+  const text = KernelConfigDiff.toText(changes);
+  assert(text.includes("-64BIT y"));
+  assert(text.includes(" NR_CPUS 64 -> 128"));
+  assert(text.includes("+DEBUG n"));
+
+  const markdown = KernelConfigDiff.toMarkdown(changes);
+  assert(markdown.includes("### General setup"));
+  assert(markdown.includes("| `CONFIG_VIRTIO` | builtin-to-module | y | m |"));
+
+  const unified = KernelConfigDiff.toUnifiedDiff(changes, diffOld);
+  assert(unified.startsWith("--- a/.config\n+++ b/.config"));
+  assert(unified.includes("-CONFIG_VIRTIO=y\n+CONFIG_VIRTIO=m\n"));
+  assert(unified.includes("+# CONFIG_LOCALVERSION is not set"));
+
+  const json = JSON.parse(KernelConfigDiff.toJSON(changes));
+  assertEquals(json["General setup"].length, 5);
+});
+
+Deno.test("unified diff hunks have real offsets and apply", async () => {
+  const padding = Array.from({ length: 10 }, (_, i) => `CONFIG_PAD${i}=y`);
+  const oldContent = [
+    "CONFIG_64BIT=y",
+    ...padding,
+    'CONFIG_LOCALVERSION="-old"',
+    "",
+  ].join("\n");
+  const newContent = [
+    "CONFIG_64BIT=y",
+    ...padding,
+    'CONFIG_LOCALVERSION="say \\"hi\\""',
+    "CONFIG_DEBUG=y",
+    "",
+  ].join("\n");
+  const changes = KernelConfigDiff.compare(
+    KernelConfigParser.parse(oldContent),
+    KernelConfigParser.parse(newContent)
+  );
+  const unified = KernelConfigDiff.toUnifiedDiff(changes, oldContent);
+  assertEquals(
+    unified,
+    [
+      "--- a/.config",
+      "+++ b/.config",
+      "@@ -9,4 +9,5 @@",
+      " CONFIG_PAD7=y",
+      " CONFIG_PAD8=y",
+      " CONFIG_PAD9=y",
+      '-CONFIG_LOCALVERSION="-old"',
+      '+CONFIG_LOCALVERSION="say \\"hi\\""',
+      "+CONFIG_DEBUG=y",
+      "",
+    ].join("\n")
+  );
+
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/.config`, oldContent);
+    await Deno.writeTextFile(`${dir}/config.diff`, unified);
+    const { success } = await new Deno.Command("git", {
+      args: ["apply", "config.diff"],
+      cwd: dir,
+      stderr: "null",
+    }).output();
+    assert(success);
+    assertEquals(await Deno.readTextFile(`${dir}/.config`), newContent);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("quoted strings round-trip their escapes", () => {
+  const line = 'CONFIG_CMDLINE="console=ttyS0 quiet \\"x\\""';
+  const config = KernelConfigParser.parse(line);
+  assertEquals(config.flatConfig.CONFIG_CMDLINE, 'console=ttyS0 quiet "x"');
+  assertEquals(
+    KernelConfigParser.serialize(config).trim().split("\n").pop(),
+    line
+  );
+});
+
 // ============================================================================
 // EDGE CASES
 // ============================================================================
@@ -392,3 +609,188 @@ Deno.test("fromTOML throws on invalid TOML", () => {
     KernelConfigDeserializer.fromTOML(invalid);
   });
 });
+
+// ============================================================================
+// HEADER TESTS
+// ============================================================================
+
+Deno.test("parse version and arch from the config header", () => {
+  const config = KernelConfigDeserializer.deserialize(complexConfig);
+  assertEquals(config.version, "6.6.100");
+  assertEquals(config.arch, "x86");
+});
+
+Deno.test("serialize round-trips the config header", () => {
+  const config = KernelConfigDeserializer.deserialize(complexConfig);
+  const serialized = KernelConfigSerializer.toConfig(config);
+  assert(serialized.includes("# Linux/x86 6.6.100 Kernel Configuration"));
+
+  const reparsed = KernelConfigDeserializer.deserialize(serialized);
+  assertEquals(reparsed.version, "6.6.100");
+  assertEquals(reparsed.arch, "x86");
+});
+
+Deno.test("version and arch survive JSON, TOML and YAML", () => {
+  const config = KernelConfigDeserializer.deserialize(complexConfig);
+  const formats = [
+    KernelConfigDeserializer.fromJSON(KernelConfigSerializer.toJSON(config)),
+    KernelConfigDeserializer.fromTOML(KernelConfigSerializer.toTOML(config)),
+    KernelConfigDeserializer.fromYAML(KernelConfigSerializer.toYAML(config)),
+  ];
+  for (const parsed of formats) {
+    assertEquals(parsed.version, "6.6.100");
+    assertEquals(parsed.arch, "x86");
+    assertEquals(parsed.flatConfig.CONFIG_SMP, "y");
+  }
+});
+
+Deno.test("config without a header has no version or arch", () => {
+  const config = KernelConfigDeserializer.deserialize(simpleConfig);
+  assertEquals(config.version, undefined);
+  assertEquals(config.arch, undefined);
+});
+
+// ============================================================================
+// MERGE TESTS
+// ============================================================================
+
+Deno.test("merge fragments with later fragments winning", () => {
+  const merged = KernelConfigMerger.merge([
+    { source: "base.config", content: simpleConfig },
+    { source: "net.config", content: "CONFIG_NET=y\nCONFIG_NR_CPUS=8" },
+    {
+      source: "debug.config",
+      content: "CONFIG_DEBUG=y\n# CONFIG_NET is not set",
+    },
+  ]);
+
+  assertEquals(merged.config.flatConfig.CONFIG_NR_CPUS, 8);
+  assertEquals(merged.config.flatConfig.CONFIG_DEBUG, "y");
+  assertEquals(merged.config.flatConfig.CONFIG_NET, undefined);
+  assertEquals(merged.provenance.CONFIG_SMP.source, "base.config");
+  assertEquals(merged.provenance.CONFIG_NET.source, "debug.config");
+  assertEquals(merged.provenance.CONFIG_NR_CPUS.overridden, [
+    { source: "base.config", value: 64 },
+  ]);
+  assertEquals(KernelConfigMerger.summarize(merged), {
+    "base.config": 3,
+    "net.config": 1,
+    "debug.config": 2,
+  });
+});
+
+Deno.test("merged config keeps hex values and quoted strings verbatim", () => {
+  const merged = KernelConfigMerger.merge([
+    {
+      source: "a",
+      content: 'CONFIG_PHYSICAL_START=0x1000000\nCONFIG_LOCALVERSION="-a"',
+    },
+    { source: "b", content: 'CONFIG_LOCALVERSION="-b"' },
+  ]);
+  assertEquals(
+    KernelConfigMerger.toConfig(merged),
+    'CONFIG_PHYSICAL_START=0x1000000\nCONFIG_LOCALVERSION="-b"'
+  );
+});
+
+// ============================================================================
+// PROFILE TESTS
+// ============================================================================
+
+Deno.test("list the built-in profiles", () => {
+  assertEquals(KernelConfigProfiles.names(), [
+    "firecracker",
+    "cloud-hypervisor",
+    "qemu-virt",
+    "minimal",
+    "debug",
+    "container-host",
+  ]);
+  for (const profile of KernelConfigProfiles.list()) {
+    assert(profile.description.length > 0);
+    assert(KernelConfigParser.parse(profile.fragment).flatConfig);
+  }
+  assertEquals(KernelConfigProfiles.get("xen"), undefined);
+});
+
+Deno.test("compose profiles over the base config, later ones winning", () => {
+  const merged = KernelConfigProfiles.compose(["minimal", "debug"]);
+  const { flatConfig } = merged.config;
+  assertEquals(flatConfig.CONFIG_CC_OPTIMIZE_FOR_SIZE, "y");
+  assertEquals(flatConfig.CONFIG_DEBUG_INFO, "y");
+  assertEquals(merged.provenance.CONFIG_DEBUG_INFO.source, "profile:debug");
+  assertEquals(merged.provenance.CONFIG_DEBUG_INFO.overridden, [
+    { source: "profile:minimal", value: undefined },
+  ]);
+  // Symbols no profile touches come from the base
+  assertEquals(merged.provenance.CONFIG_SMP.source, "default-config.ts");
+
+  assertThrows(
+    () => KernelConfigProfiles.fragments(["xen"]),
+    Error,
+    "Unknown profile 'xen'"
+  );
+});
+
+Deno.test("guest profiles only set the paravirt symbols of their arch", () => {
+  const guest = (arch: "x86_64" | "arm64" | "riscv64") =>
+    KernelConfigParser.parse(
+      KernelConfigProfiles.fragments(["firecracker"], arch)[0].content
+    ).flatConfig;
+
+  assertEquals(guest("x86_64").CONFIG_KVM_GUEST, "y");
+  assertEquals(guest("x86_64").CONFIG_PARAVIRT, "y");
+  assertEquals(guest("arm64").CONFIG_KVM_GUEST, undefined);
+  assertEquals(guest("arm64").CONFIG_PARAVIRT, "y");
+  assertEquals(guest("riscv64").CONFIG_PARAVIRT, undefined);
+  assertEquals(guest("riscv64").CONFIG_VIRTIO_MMIO, "y");
+  for (const name of ["cloud-hypervisor", "qemu-virt"]) {
+    const [fragment] = KernelConfigProfiles.fragments([name], "arm64");
+    assert(!fragment.content.includes("CONFIG_KVM_GUEST"));
+  }
+});
+
+Deno.test("register a custom profile", () => {
+  KernelConfigProfiles.register({
+    name: "test-profile",
+    description: "test",
+    fragment: "CONFIG_NR_CPUS=4",
+  });
+  assertEquals(KernelConfigProfiles.fragments(["test-profile"]), [
+    { source: "profile:test-profile", content: "CONFIG_NR_CPUS=4" },
+  ]);
+});
+
+// ============================================================================
+// DEFAULT CONFIG TESTS
+// ============================================================================
+
+Deno.test("pick the default config from the machine arch", () => {
+  assertEquals(KernelDefaultConfigs.archFor("x86_64"), "x86_64");
+  assertEquals(KernelDefaultConfigs.archFor("aarch64"), "arm64");
+  assertEquals(KernelDefaultConfigs.archFor("riscv64"), "riscv64");
+  assertEquals(KernelDefaultConfigs.archFor("ppc64le"), undefined);
+
+  const [x86] = KernelDefaultConfigs.fragments("x86_64");
+  assertEquals(x86.source, "default-config.ts");
+  assertEquals(KernelConfigParser.parse(x86.content).arch, "x86");
+});
+
+Deno.test("non-x86 defaults share the arch-independent symbols", () => {
+  const fragments = KernelDefaultConfigs.fragments("arm64");
+  assertEquals(
+    fragments.map(({ source }) => source),
+    ["default-config:common", "default-config:arm64"]
+  );
+
+  const common = KernelConfigParser.parse(KernelDefaultConfigs.common());
+  assertEquals(common.flatConfig.CONFIG_VIRTIO_NET, "y");
+  assertEquals(common.flatConfig.CONFIG_NF_TABLES, "y");
+  assertEquals(common.flatConfig.CONFIG_X86_64, undefined);
+  assertEquals(common.flatConfig.CONFIG_GCC_VERSION, undefined);
+
+  const arm64 = KernelConfigParser.parse(KernelDefaultConfigs.content("arm64"));
+  assertEquals(arm64.flatConfig.CONFIG_ARM64, "y");
+  assertEquals(arm64.flatConfig.CONFIG_VIRTIO_NET, "y");
+  assertEquals(arm64.flatConfig.CONFIG_X86_64, undefined);
+});
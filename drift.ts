@@ -0,0 +1,87 @@
+import type { ConfigValue, KernelConfig } from "./config.ts";
+
+/**
+ * A symbol whose effective value differs from the requested one
+ */
+export interface DriftEntry {
+  key: string;
+  /** Value in the requested config (undefined: is not set or absent) */
+  requested: ConfigValue | undefined;
+  /** Value after `make olddefconfig` (undefined: is not set or absent) */
+  effective: ConfigValue | undefined;
+}
+
+/**
+ * Requested vs. effective config after Kconfig normalized it
+ */
+export interface ConfigDrift {
+  /** Requested as y/m/a value, but not set in the final config */
+  dropped: DriftEntry[];
+  /** Set in both, to different values (e.g. y -> m, 64 -> 128), or
+   * requested off but forced on (e.g. by a select) */
+  changed: DriftEntry[];
+  /** Not in the requested config, given a value by a Kconfig default */
+  defaulted: DriftEntry[];
+}
+
+const isUnset = (value: ConfigValue | undefined): boolean =>
+  value === undefined || value === "n";
+
+/**
+ * Compare the requested config with the one Kconfig produced
+ */
+export function computeConfigDrift(
+  requested: KernelConfig,
+  effective: KernelConfig
+): ConfigDrift {
+  const drift: ConfigDrift = { dropped: [], changed: [], defaulted: [] };
+
+  for (const [key, want] of Object.entries(requested.flatConfig)) {
+    const got = effective.flatConfig[key];
+    if (isUnset(want) && isUnset(got)) continue;
+    if (want === got) continue;
+
+    const entry = {
+      key,
+      requested: isUnset(want) ? undefined : want,
+      effective: isUnset(got) ? undefined : got,
+    };
+    if (isUnset(got)) {
+      drift.dropped.push(entry);
+    } else {
+      drift.changed.push(entry);
+    }
+  }
+
+  for (const [key, got] of Object.entries(effective.flatConfig)) {
+    if (key in requested.flatConfig || isUnset(got)) continue;
+    drift.defaulted.push({ key, requested: undefined, effective: got });
+  }
+
+  return drift;
+}
+
+/**
+ * Symbols requested as built-in (=y) that did not survive
+ */
+export function droppedBuiltins(drift: ConfigDrift): DriftEntry[] {
+  return drift.dropped.filter((entry) => entry.requested === "y");
+}
+
+/**
+ * Human-readable summary: counts, then every dropped and changed symbol
+ */
+export function formatConfigDrift(drift: ConfigDrift): string {
+  const show = (value: ConfigValue | undefined) => value ?? "is not set";
+  const lines = [
+    `Config drift: ${drift.dropped.length} dropped, ${drift.changed.length} changed, ${drift.defaulted.length} newly defaulted`,
+  ];
+
+  for (const { key, requested } of drift.dropped) {
+    lines.push(`  dropped  ${key} (requested ${show(requested)})`);
+  }
+  for (const { key, requested, effective } of drift.changed) {
+    lines.push(`  changed  ${key}: ${show(requested)} -> ${show(effective)}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,58 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  computeConfigDrift,
+  droppedBuiltins,
+  formatConfigDrift,
+  KernelConfigParser,
+} from "./build.ts";
+
+const requested = KernelConfigParser.parse(`
+CONFIG_NET=y
+CONFIG_VIRTIO_NET=y
+CONFIG_VIRTIO_BLK=m
+CONFIG_NR_CPUS=64
+# CONFIG_DEBUG_INFO is not set
+# CONFIG_CRYPTO is not set
+`);
+
+const effective = KernelConfigParser.parse(`
+CONFIG_NET=y
+# CONFIG_VIRTIO_NET is not set
+CONFIG_NR_CPUS=128
+# CONFIG_DEBUG_INFO is not set
+CONFIG_CRYPTO=y
+CONFIG_INET=y
+# CONFIG_IPV6 is not set
+`);
+
+Deno.test(
+  "computeConfigDrift classifies dropped, changed and defaulted",
+  () => {
+    const drift = computeConfigDrift(requested, effective);
+    assertEquals(drift.dropped, [
+      { key: "CONFIG_VIRTIO_NET", requested: "y", effective: undefined },
+      { key: "CONFIG_VIRTIO_BLK", requested: "m", effective: undefined },
+    ]);
+    assertEquals(drift.changed, [
+      { key: "CONFIG_NR_CPUS", requested: 64, effective: 128 },
+      { key: "CONFIG_CRYPTO", requested: undefined, effective: "y" },
+    ]);
+    assertEquals(drift.defaulted, [
+      { key: "CONFIG_INET", requested: undefined, effective: "y" },
+    ]);
+  }
+);
+
+Deno.test("droppedBuiltins only keeps requested =y symbols", () => {
+  const drift = computeConfigDrift(requested, effective);
+  assertEquals(
+    droppedBuiltins(drift).map((entry) => entry.key),
+    ["CONFIG_VIRTIO_NET"]
+  );
+});
+
+Deno.test("formatConfigDrift summarizes the drift", () => {
+  const text = formatConfigDrift(computeConfigDrift(requested, effective));
+  assertStringIncludes(text, "2 dropped, 2 changed, 1 newly defaulted");
+  assertStringIncludes(text, "changed  CONFIG_NR_CPUS: 64 -> 128");
+});
@@ -0,0 +1,102 @@
+import chalk from "chalk";
+
+/**
+ * Error raised when a build step fails. Carries the exit code the CLI should
+ * terminate with, so library callers never see a `Deno.exit`.
+ */
+export class BuildError extends Error {
+  constructor(message: string, readonly exitCode: number = 1) {
+    super(message);
+    this.name = "BuildError";
+  }
+}
+
+/**
+ * Options shared by the command helpers
+ */
+export interface ExecOptions {
+  /** Working directory for the command (default: current directory) */
+  cwd?: string;
+  /** Extra environment variables */
+  env?: Record<string, string>;
+}
+
+/**
+ * Run a command with inherited stdio, throwing a `BuildError` on failure
+ */
+export async function run(cmd: string[], options?: ExecOptions): Promise<void> {
+  console.log(`Running: ${chalk.green(cmd.join(" "))}`);
+  const process = new Deno.Command(cmd[0], {
+    args: cmd.slice(1),
+    cwd: options?.cwd,
+    env: options?.env,
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+  const { code } = await process.output();
+  if (code !== 0) {
+    throw new BuildError(`command failed: ${cmd.join(" ")}`, code);
+  }
+}
+
+/**
+ * Run a command silently and report whether it succeeded
+ */
+export async function runQuiet(
+  cmd: string[],
+  options?: ExecOptions
+): Promise<boolean> {
+  try {
+    const process = new Deno.Command(cmd[0], {
+      args: cmd.slice(1),
+      cwd: options?.cwd,
+      env: options?.env,
+      stdout: "null",
+      stderr: "null",
+    });
+    const { code } = await process.output();
+    return code === 0;
+  } catch {
+    // Binary not found
+    return false;
+  }
+}
+
+/**
+ * Run a command and return its trimmed stdout
+ */
+export async function capture(
+  cmd: string[],
+  options?: ExecOptions
+): Promise<string> {
+  const process = new Deno.Command(cmd[0], {
+    args: cmd.slice(1),
+    cwd: options?.cwd,
+    env: options?.env,
+    stdout: "piped",
+    stderr: "null",
+  });
+  const { stdout } = await process.output();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+export async function fileExists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the sha256 of a file with `sha256sum` (streams large artifacts
+ * instead of loading them in memory)
+ */
+export async function sha256File(
+  path: string,
+  options?: ExecOptions
+): Promise<string> {
+  const out = await capture(["sha256sum", path], options);
+  return out.split(/\s+/)[0];
+}
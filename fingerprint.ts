@@ -0,0 +1,148 @@
+import z from "@zod/zod";
+import type { BuildArtifacts } from "./builder.ts";
+import { fileExists, sha256File } from "./exec.ts";
+import type { ToolchainInfo } from "./toolchain.ts";
+
+/**
+ * Build fingerprints: what went into the artifacts of an object tree, kept in
+ * build-fingerprint.json next to them. A build whose inputs all match the
+ * previous one reuses its artifacts; one where only the config changed keeps
+ * the object tree and rebuilds incrementally.
+ */
+
+/** File the fingerprint is written to, in the object tree */
+export const FINGERPRINT_FILE = "build-fingerprint.json";
+
+/**
+ * Everything a build's artifacts depend on
+ */
+export interface BuildInputs {
+  /** Checked-out commit, or the sha256 of the release tarball */
+  source: string;
+  /** sha256 of every applied patch, in order */
+  patches: string[];
+  /** Compiler, assembler and linker versions, as Kconfig records them */
+  toolchain: ToolchainInfo;
+  /** sha256 of the final .config */
+  config: string;
+  /** Options that shape the artifacts (names, make variables, extra images) */
+  options: Record<string, unknown>;
+}
+
+/**
+ * The inputs of a build and what it produced
+ */
+export interface BuildFingerprint {
+  /** sha256 of the canonical JSON of `inputs` */
+  hash: string;
+  inputs: BuildInputs;
+  kernelRelease: string;
+  artifacts: BuildArtifacts;
+}
+
+const ArtifactSchema = z.object({ path: z.string(), sha256: z.string() });
+
+const BuildFingerprintSchema: z.ZodType<BuildFingerprint> = z.object({
+  hash: z.string(),
+  inputs: z.object({
+    source: z.string(),
+    patches: z.array(z.string()),
+    toolchain: z.record(z.string(), z.union([z.string(), z.number()])),
+    config: z.string(),
+    options: z.record(z.string(), z.unknown()),
+  }),
+  kernelRelease: z.string(),
+  artifacts: z.object({
+    vmlinux: ArtifactSchema,
+    image: ArtifactSchema.optional(),
+    uimage: ArtifactSchema.optional(),
+    initrd: ArtifactSchema.optional(),
+    uinitrd: ArtifactSchema.optional(),
+    modules: ArtifactSchema.optional(),
+  }),
+});
+
+// JSON with object keys sorted, so equal inputs always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * sha256 of a build's inputs
+ */
+export async function hashInputs(inputs: BuildInputs): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalJson(inputs))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * The inputs that differ between two builds, comparing only those `current`
+ * has (the source inputs are known before the config is)
+ */
+export function changedInputs(
+  previous: BuildInputs,
+  current: Partial<BuildInputs>
+): (keyof BuildInputs)[] {
+  return (Object.keys(current) as (keyof BuildInputs)[]).filter(
+    (key) => canonicalJson(previous[key]) !== canonicalJson(current[key])
+  );
+}
+
+/**
+ * The fingerprint of the last build in an object tree; a missing or
+ * unreadable one means there is nothing to reuse
+ */
+export async function readFingerprint(
+  buildDir: string
+): Promise<BuildFingerprint | undefined> {
+  const path = `${buildDir}/${FINGERPRINT_FILE}`;
+  if (!(await fileExists(path))) return undefined;
+  try {
+    const result = BuildFingerprintSchema.safeParse(
+      JSON.parse(await Deno.readTextFile(path))
+    );
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Record a finished build in its object tree
+ */
+export async function writeFingerprint(
+  buildDir: string,
+  fingerprint: BuildFingerprint
+): Promise<void> {
+  await Deno.writeTextFile(
+    `${buildDir}/${FINGERPRINT_FILE}`,
+    JSON.stringify(fingerprint, null, 2)
+  );
+}
+
+/**
+ * Whether every artifact of a fingerprint is still there, unmodified
+ */
+export async function artifactsIntact(
+  artifacts: BuildArtifacts
+): Promise<boolean> {
+  for (const artifact of Object.values(artifacts)) {
+    if (!artifact) continue;
+    if (!(await fileExists(artifact.path))) return false;
+    if ((await sha256File(artifact.path)) !== artifact.sha256) return false;
+  }
+  return true;
+}
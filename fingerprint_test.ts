@@ -0,0 +1,73 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  artifactsIntact,
+  type BuildInputs,
+  changedInputs,
+  hashInputs,
+  readFingerprint,
+  writeFingerprint,
+} from "./build.ts";
+import { sha256File } from "./exec.ts";
+
+const INPUTS: BuildInputs = {
+  source: "0123456789abcdef0123456789abcdef01234567",
+  patches: [],
+  toolchain: { CONFIG_GCC_VERSION: 130300, CONFIG_LD_VERSION: 24200 },
+  config: "c".repeat(64),
+  options: { version: "6.16.2", arch: "x86_64", makeVars: [] },
+};
+
+Deno.test("hashInputs ignores key order", async () => {
+  const reordered: BuildInputs = {
+    options: { makeVars: [], arch: "x86_64", version: "6.16.2" },
+    config: INPUTS.config,
+    toolchain: { CONFIG_LD_VERSION: 24200, CONFIG_GCC_VERSION: 130300 },
+    patches: [],
+    source: INPUTS.source,
+  };
+  assertEquals(await hashInputs(reordered), await hashInputs(INPUTS));
+  assertNotEquals(
+    await hashInputs({ ...INPUTS, config: "d".repeat(64) }),
+    await hashInputs(INPUTS)
+  );
+});
+
+Deno.test("changedInputs tells config-only changes apart", () => {
+  const current = { ...INPUTS, config: "d".repeat(64) };
+  assertEquals(changedInputs(INPUTS, current), ["config"]);
+  // Before the config is known, only the source inputs are compared
+  assertEquals(
+    changedInputs(INPUTS, {
+      source: INPUTS.source,
+      patches: [],
+      toolchain: { CONFIG_GCC_VERSION: 140200, CONFIG_LD_VERSION: 24200 },
+    }),
+    ["toolchain"]
+  );
+});
+
+Deno.test("fingerprints round-trip and check their artifacts", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const vmlinux = `${dir}/vmlinux-6.16.2.x86_64`;
+    await Deno.writeTextFile(vmlinux, "ELF");
+    const fingerprint = {
+      hash: await hashInputs(INPUTS),
+      inputs: INPUTS,
+      kernelRelease: "6.16.2",
+      artifacts: {
+        vmlinux: { path: vmlinux, sha256: await sha256File(vmlinux) },
+      },
+    };
+    assertEquals(await readFingerprint(dir), undefined);
+    await writeFingerprint(dir, fingerprint);
+    const read = await readFingerprint(dir);
+    assertEquals(read, fingerprint);
+    assertEquals(await artifactsIntact(fingerprint.artifacts), true);
+
+    await Deno.writeTextFile(vmlinux, "ELF, rebuilt by hand");
+    assertEquals(await artifactsIntact(fingerprint.artifacts), false);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
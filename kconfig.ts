@@ -0,0 +1,997 @@
+import type { ConfigValue, KernelConfig } from "./config.ts";
+
+/**
+ * Reader and validator for the Kconfig files of a kernel tree. It understands
+ * enough of the Kconfig language (symbol types, prompts, `depends on`,
+ * `select`, `range`, `choice`, `if`/`menu` blocks and `source`) to check a
+ * .config against the tree it will be built from, without running `make`.
+ */
+
+export type KconfigType = "bool" | "tristate" | "int" | "hex" | "string";
+
+/**
+ * Parsed Kconfig expression. Words are symbol references (y/m/n and numbers
+ * included), quoted strings are constants and `$(...)` preprocessor calls
+ * (toolchain probes such as `$(cc-option,-fstack-protector)`) are macros,
+ * kept unexpanded.
+ */
+export type KconfigExpr =
+  | { op: "symbol"; name: string }
+  | { op: "const"; value: string }
+  | { op: "macro"; text: string }
+  | { op: "not"; expr: KconfigExpr }
+  | { op: "and" | "or"; left: KconfigExpr; right: KconfigExpr }
+  | {
+      op: "=" | "!=" | "<" | ">" | "<=" | ">=";
+      left: KconfigExpr;
+      right: KconfigExpr;
+    };
+
+export interface KconfigSelect {
+  symbol: string;
+  condition?: KconfigExpr;
+}
+
+/** `default <value> [if <condition>]` (also from def_bool/def_tristate) */
+export interface KconfigDefault {
+  value: KconfigExpr;
+  condition?: KconfigExpr;
+}
+
+export interface KconfigRange {
+  min: string;
+  max: string;
+  condition?: KconfigExpr;
+}
+
+/**
+ * A symbol, merged over all of its definitions (names have no CONFIG_ prefix)
+ */
+export interface KconfigSymbol {
+  name: string;
+  type?: KconfigType;
+  prompt?: string;
+  /** Direct dependencies, OR-ed across definitions (undefined: none) */
+  dependsOn?: KconfigExpr;
+  selects: KconfigSelect[];
+  ranges: KconfigRange[];
+  /** Defaults in definition order; the first one whose condition holds wins */
+  defaults: KconfigDefault[];
+  /** Name of the choice group the symbol belongs to */
+  choice?: string;
+  /** Definition sites as "path:line" */
+  locations: string[];
+}
+
+export interface KconfigChoice {
+  /** Choice name, or "<choice>@path:line" for anonymous choices */
+  name: string;
+  prompt?: string;
+  symbols: string[];
+  /** `default <member> [if <condition>]` (else the first visible member) */
+  defaults: KconfigDefault[];
+}
+
+export interface Kconfig {
+  symbols: Record<string, KconfigSymbol>;
+  choices: KconfigChoice[];
+}
+
+export interface KconfigReadOptions {
+  /** Value of $(SRCARCH)/$(ARCH) in source paths, e.g. "x86" or "arm64" */
+  arch?: string;
+  /** Top-level Kconfig file (default: "Kconfig") */
+  entry?: string;
+}
+
+/** Returns a file's content, or undefined when it does not exist */
+export type KconfigFileReader = (path: string) => Promise<string | undefined>;
+
+const TRISTATE: Record<string, number> = { n: 0, m: 1, y: 2 };
+
+// `uname -m` to the Kconfig arch (SRCARCH) of the kernel tree
+const KCONFIG_ARCH: Record<string, string> = {
+  x86_64: "x86",
+  i686: "x86",
+  aarch64: "arm64",
+  armv7l: "arm",
+  riscv64: "riscv",
+  ppc64le: "powerpc",
+  s390x: "s390",
+};
+
+/**
+ * Kconfig arch for a machine name, e.g. x86_64 -> x86, aarch64 -> arm64
+ */
+export function kconfigArch(machine: string): string {
+  return KCONFIG_ARCH[machine] ?? machine;
+}
+
+const EXPR_TOKEN_REGEX =
+  /\s*(&&|\|\||!=|<=|>=|[=<>!()]|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s&|!=<>()"'$]+)/y;
+
+/**
+ * End (exclusive) of the `$(...)` call starting at `start`, or undefined when
+ * it is not closed. Like kconfig's preprocessor, only parentheses count:
+ * quotes inside a call are its arguments' business.
+ */
+function macroEnd(text: string, start: number): number | undefined {
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")" && --depth === 0) return i + 1;
+  }
+  return undefined;
+}
+
+const COMPARISONS = new Set(["=", "!=", "<", ">", "<=", ">="]);
+const TYPE_KEYWORDS = new Set(["bool", "tristate", "int", "hex", "string"]);
+
+/**
+ * Parse, evaluate and print Kconfig expressions
+ */
+export class KconfigExpression {
+  static parse(text: string): KconfigExpr {
+    const tokens: string[] = [];
+    let end = 0;
+    for (;;) {
+      const start = end + (text.slice(end).match(/^\s*/)?.[0].length ?? 0);
+      if (text.startsWith("$(", start)) {
+        const close = macroEnd(text, start);
+        if (close === undefined) break;
+        tokens.push(text.slice(start, close));
+        end = close;
+        continue;
+      }
+      EXPR_TOKEN_REGEX.lastIndex = end;
+      const match = EXPR_TOKEN_REGEX.exec(text);
+      if (!match) break;
+      tokens.push(match[1]);
+      end = EXPR_TOKEN_REGEX.lastIndex;
+    }
+    if (text.slice(end).trim() || tokens.length === 0) {
+      throw new Error(`Invalid Kconfig expression '${text}'`);
+    }
+
+    let pos = 0;
+    const fail = (): never => {
+      throw new Error(`Invalid Kconfig expression '${text}'`);
+    };
+    const operand = (): KconfigExpr => {
+      const token = tokens[pos++] ?? fail();
+      if (/^["']/.test(token)) return { op: "const", value: unquote(token) };
+      if (token.startsWith("$(")) return { op: "macro", text: token };
+      if (/^(&&|\|\||!=|<=|>=|[=<>!()])$/.test(token)) fail();
+      return { op: "symbol", name: token };
+    };
+    const unary = (): KconfigExpr => {
+      if (tokens[pos] === "!") {
+        pos++;
+        return { op: "not", expr: unary() };
+      }
+      if (tokens[pos] === "(") {
+        pos++;
+        const expr = or();
+        if (tokens[pos++] !== ")") fail();
+        return expr;
+      }
+      const left = operand();
+      const op = tokens[pos];
+      if (!COMPARISONS.has(op)) return left;
+      pos++;
+      return {
+        op: op as "=" | "!=" | "<" | ">" | "<=" | ">=",
+        left,
+        right: operand(),
+      };
+    };
+    const and = (): KconfigExpr => {
+      let left = unary();
+      while (tokens[pos] === "&&") {
+        pos++;
+        left = { op: "and", left, right: unary() };
+      }
+      return left;
+    };
+    const or = (): KconfigExpr => {
+      let left = and();
+      while (tokens[pos] === "||") {
+        pos++;
+        left = { op: "or", left, right: and() };
+      }
+      return left;
+    };
+
+    const expr = or();
+    if (pos !== tokens.length) fail();
+    return expr;
+  }
+
+  /**
+   * Evaluate an expression to a tristate level (0 = n, 1 = m, 2 = y)
+   *
+   * @param valueOf string value of a defined symbol ("y", "m", "n", "64",
+   *   "foo"...), or undefined when the word is not a symbol (a literal)
+   * @param macro level of `$(...)` calls, which probe the toolchain and are
+   *   unknown here (default: n)
+   */
+  static evaluate(
+    expr: KconfigExpr,
+    valueOf: (name: string) => string | undefined,
+    macro: number = 0
+  ): number {
+    const text = (operand: KconfigExpr) => this.valueText(operand, valueOf);
+
+    switch (expr.op) {
+      case "symbol":
+        return TRISTATE[text(expr)] ?? 0;
+      case "const":
+        return TRISTATE[expr.value] ?? 0;
+      case "macro":
+        return macro;
+      case "not":
+        return 2 - this.evaluate(expr.expr, valueOf, macro);
+      case "and":
+        return Math.min(
+          this.evaluate(expr.left, valueOf, macro),
+          this.evaluate(expr.right, valueOf, macro)
+        );
+      case "or":
+        return Math.max(
+          this.evaluate(expr.left, valueOf, macro),
+          this.evaluate(expr.right, valueOf, macro)
+        );
+      default: {
+        const cmp = compareValues(text(expr.left), text(expr.right));
+        const result = {
+          "=": cmp === 0,
+          "!=": cmp !== 0,
+          "<": cmp < 0,
+          ">": cmp > 0,
+          "<=": cmp <= 0,
+          ">=": cmp >= 0,
+        }[expr.op];
+        return result ? 2 : 0;
+      }
+    }
+  }
+
+  /**
+   * Whether an expression calls a `$(...)` macro, so its value depends on
+   * the toolchain
+   */
+  static hasMacro(expr: KconfigExpr): boolean {
+    switch (expr.op) {
+      case "macro":
+        return true;
+      case "symbol":
+      case "const":
+        return false;
+      case "not":
+        return this.hasMacro(expr.expr);
+      default:
+        return this.hasMacro(expr.left) || this.hasMacro(expr.right);
+    }
+  }
+
+  /**
+   * String value of an operand: a constant, a symbol's value, or the word
+   * itself when it is not a symbol (e.g. "64" in `default 64`)
+   */
+  static valueText(
+    operand: KconfigExpr,
+    valueOf: (name: string) => string | undefined
+  ): string {
+    if (operand.op === "const") return operand.value;
+    if (operand.op !== "symbol") return "";
+    if (operand.name in TRISTATE) return operand.name;
+    return valueOf(operand.name) ?? operand.name;
+  }
+
+  /**
+   * Render an expression in Kconfig syntax
+   */
+  static toString(expr: KconfigExpr): string {
+    const wrap = (inner: KconfigExpr, parent: KconfigExpr["op"]) =>
+      (inner.op === "or" && parent !== "or") ||
+      (parent === "not" && !["symbol", "const", "not"].includes(inner.op))
+        ? `(${this.toString(inner)})`
+        : this.toString(inner);
+
+    switch (expr.op) {
+      case "symbol":
+        return expr.name;
+      case "const":
+        return JSON.stringify(expr.value);
+      case "macro":
+        return expr.text;
+      case "not":
+        return `!${wrap(expr.expr, "not")}`;
+      case "and":
+        return `${wrap(expr.left, "and")} && ${wrap(expr.right, "and")}`;
+      case "or":
+        return `${wrap(expr.left, "or")} || ${wrap(expr.right, "or")}`;
+      default:
+        return `${this.toString(expr.left)} ${expr.op} ${this.toString(
+          expr.right
+        )}`;
+    }
+  }
+
+  /**
+   * Split an expression into its top-level && operands
+   */
+  static conjuncts(expr: KconfigExpr): KconfigExpr[] {
+    return expr.op === "and"
+      ? [...this.conjuncts(expr.left), ...this.conjuncts(expr.right)]
+      : [expr];
+  }
+
+  /**
+   * Words an expression refers to, in order, without y/m/n
+   */
+  static symbols(expr: KconfigExpr): string[] {
+    switch (expr.op) {
+      case "symbol":
+        return expr.name in TRISTATE ? [] : [expr.name];
+      case "const":
+      case "macro":
+        return [];
+      case "not":
+        return this.symbols(expr.expr);
+      default:
+        return [
+          ...new Set([...this.symbols(expr.left), ...this.symbols(expr.right)]),
+        ];
+    }
+  }
+
+  /**
+   * Combine expressions with && (undefined entries are always true)
+   */
+  static and(...exprs: (KconfigExpr | undefined)[]): KconfigExpr | undefined {
+    return exprs.reduce<KconfigExpr | undefined>(
+      (left, right) =>
+        left && right ? { op: "and", left, right } : left ?? right,
+      undefined
+    );
+  }
+}
+
+// Numeric comparison when both sides are numbers (decimal or hex), else string
+function compareValues(a: string, b: string): number {
+  const number = (value: string) =>
+    /^-?\d+$/.test(value)
+      ? parseInt(value, 10)
+      : /^0x[0-9a-f]+$/i.test(value)
+      ? parseInt(value, 16)
+      : undefined;
+  const [x, y] = [number(a), number(b)];
+  if (x !== undefined && y !== undefined) return Math.sign(x - y);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function unquote(token: string): string {
+  return token.slice(1, -1).replace(/\\(.)/g, "$1");
+}
+
+// Leading whitespace width, tabs to the next multiple of 8
+function indentation(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") width++;
+    else if (char === "\t") width = (width & ~7) + 8;
+    else break;
+  }
+  return width;
+}
+
+// Strip a trailing # comment outside of quotes and macro calls
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (!quote && line.startsWith("$(", i)) {
+      i = (macroEnd(line, i) ?? line.length) - 1;
+    } else if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+// Split `<head> if <expr>` at the first `if` word outside of quotes and
+// macro calls
+function splitCondition(rest: string): [string, KconfigExpr | undefined] {
+  let quote: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const char = rest[i];
+    if (!quote && rest.startsWith("$(", i)) {
+      i = (macroEnd(rest, i) ?? rest.length) - 1;
+    } else if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (
+      /^if(\s|$)/.test(rest.slice(i)) &&
+      (i === 0 || /\s/.test(rest[i - 1]))
+    ) {
+      return [
+        rest.slice(0, i).trim(),
+        KconfigExpression.parse(rest.slice(i + 2)),
+      ];
+    }
+  }
+  return [rest.trim(), undefined];
+}
+
+// Leading quoted prompt of an attribute, if any
+function promptOf(head: string): string | undefined {
+  const match = head.match(/^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/);
+  return match ? unquote(match[1]) : undefined;
+}
+
+interface Block {
+  dependsOn?: KconfigExpr;
+  choice?: KconfigChoice;
+}
+
+interface SymbolEntry {
+  kind: "config";
+  symbol: KconfigSymbol;
+  dependsOn: KconfigExpr[];
+}
+
+interface BlockEntry {
+  kind: "menu" | "choice";
+  block: Block;
+}
+
+type Entry = SymbolEntry | BlockEntry | { kind: "comment" };
+
+/**
+ * Read the Kconfig files of a kernel tree
+ */
+export class KconfigReader {
+  /**
+   * Read the Kconfig tree rooted at `srcDir` (the checked-out kernel source)
+   */
+  static async read(
+    srcDir: string,
+    options?: KconfigReadOptions
+  ): Promise<Kconfig> {
+    return await this.parse(async (path) => {
+      try {
+        return await Deno.readTextFile(`${srcDir}/${path}`);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return undefined;
+        throw error;
+      }
+    }, options);
+  }
+
+  /**
+   * Parse a Kconfig tree through a file reader (paths relative to the tree
+   * root, as used by `source`)
+   */
+  static async parse(
+    readFile: KconfigFileReader,
+    options?: KconfigReadOptions
+  ): Promise<Kconfig> {
+    const kconfig: Kconfig = { symbols: {}, choices: [] };
+    // Dependencies of each definition, OR-ed once every file is read
+    const definitions = new Map<string, (KconfigExpr | undefined)[]>();
+    const blocks: Block[] = [];
+    const sourcing: string[] = [];
+
+    const resolvePath = (path: string, from: string, relative: boolean) => {
+      const substituted = path.replace(/\$\((SRC)?ARCH\)/g, (macro) => {
+        if (!options?.arch) {
+          throw new Error(
+            `${from}: cannot resolve ${macro} in '${path}' without an arch`
+          );
+        }
+        return options.arch;
+      });
+      if (!relative) return substituted;
+      const dir = from.slice(0, from.lastIndexOf("/") + 1);
+      return `${dir}${substituted}`.replace(/^\.\//, "");
+    };
+
+    const finish = (entry: Entry | undefined) => {
+      if (entry?.kind !== "config") return;
+      const deps = definitions.get(entry.symbol.name) ?? [];
+      deps.push(
+        KconfigExpression.and(
+          ...blocks.map((block) => block.dependsOn),
+          ...entry.dependsOn
+        )
+      );
+      definitions.set(entry.symbol.name, deps);
+    };
+
+    const parseFile = async (path: string, from: string, optional: boolean) => {
+      if (path.includes("$(")) {
+        if (optional) return;
+        throw new Error(`${from}: cannot resolve macros in '${path}'`);
+      }
+      if (sourcing.includes(path)) {
+        throw new Error(`${from}: recursive source of '${path}'`);
+      }
+      const content = await readFile(path);
+      if (content === undefined) {
+        if (optional) return;
+        throw new Error(`${from}: cannot read Kconfig file '${path}'`);
+      }
+
+      sourcing.push(path);
+      const lines = content.split("\n");
+      let entry: Entry | undefined;
+
+      for (let i = 0; i < lines.length; i++) {
+        const where = `${path}:${i + 1}`;
+        let raw = lines[i];
+        while (raw.endsWith("\\") && i + 1 < lines.length) {
+          raw = `${raw.slice(0, -1)} ${lines[++i]}`;
+        }
+        const line = stripComment(raw).trim();
+        if (!line) continue;
+
+        const [, keyword, rest = ""] = line.match(/^(\S+)\s*(.*)$/) ?? [];
+
+        switch (keyword) {
+          case "config":
+          case "menuconfig": {
+            finish(entry);
+            const symbol = (kconfig.symbols[rest] ??= {
+              name: rest,
+              selects: [],
+              defaults: [],
+              ranges: [],
+              locations: [],
+            });
+            symbol.locations.push(where);
+            const choice = blocks.at(-1)?.choice;
+            if (choice) {
+              symbol.choice = choice.name;
+              choice.symbols.push(rest);
+            }
+            entry = { kind: "config", symbol, dependsOn: [] };
+            continue;
+          }
+          case "choice": {
+            finish(entry);
+            const choice: KconfigChoice = {
+              name: rest || `<choice>@${where}`,
+              symbols: [],
+              defaults: [],
+            };
+            kconfig.choices.push(choice);
+            const block: Block = { choice };
+            blocks.push(block);
+            entry = { kind: "choice", block };
+            continue;
+          }
+          case "menu": {
+            finish(entry);
+            const block: Block = {};
+            blocks.push(block);
+            entry = { kind: "menu", block };
+            continue;
+          }
+          case "if":
+            finish(entry);
+            blocks.push({ dependsOn: KconfigExpression.parse(rest) });
+            entry = undefined;
+            continue;
+          case "endchoice":
+          case "endmenu":
+          case "endif":
+            finish(entry);
+            if (!blocks.pop()) {
+              throw new Error(`${where}: unexpected '${keyword}'`);
+            }
+            entry = undefined;
+            continue;
+          case "comment":
+            finish(entry);
+            entry = { kind: "comment" };
+            continue;
+          case "mainmenu":
+            finish(entry);
+            entry = undefined;
+            continue;
+          case "source":
+          case "osource":
+          case "rsource":
+          case "orsource": {
+            finish(entry);
+            entry = undefined;
+            const target = resolvePath(
+              unquote(rest),
+              where,
+              keyword.startsWith("r") || keyword === "orsource"
+            );
+            await parseFile(target, where, keyword.startsWith("o"));
+            continue;
+          }
+          case "help":
+          case "---help---": {
+            // Help text runs while lines are blank or indented at least as
+            // deep as its first line
+            let helpIndent: number | undefined;
+            while (i + 1 < lines.length) {
+              const next = lines[i + 1];
+              if (next.trim()) {
+                const indent = indentation(next);
+                helpIndent ??= indent > indentation(raw) ? indent : -1;
+                if (helpIndent < 0 || indent < helpIndent) break;
+              }
+              i++;
+            }
+            continue;
+          }
+        }
+
+        // Macro definitions (e.g. from scripts/Kconfig.include)
+        if (/^[A-Za-z_][\w-]*\s*[:+]?=/.test(line)) continue;
+
+        if (keyword === "depends" && rest.startsWith("on")) {
+          const dep = KconfigExpression.parse(rest.slice(2));
+          if (entry?.kind === "config") entry.dependsOn.push(dep);
+          else if (entry?.kind === "menu" || entry?.kind === "choice") {
+            entry.block.dependsOn = KconfigExpression.and(
+              entry.block.dependsOn,
+              dep
+            );
+          }
+          continue;
+        }
+
+        const symbol = entry?.kind === "config" ? entry.symbol : undefined;
+        const choice =
+          entry?.kind === "choice" ? entry.block.choice : undefined;
+
+        if (TYPE_KEYWORDS.has(keyword) || keyword === "prompt") {
+          const [head] = splitCondition(rest);
+          const prompt = promptOf(head);
+          if (symbol) {
+            if (keyword !== "prompt") symbol.type ??= keyword as KconfigType;
+            if (prompt !== undefined) symbol.prompt ??= prompt;
+          } else if (choice && prompt !== undefined) {
+            choice.prompt ??= prompt;
+          }
+        } else if (keyword === "def_bool" || keyword === "def_tristate") {
+          if (symbol) {
+            symbol.type ??= keyword === "def_bool" ? "bool" : "tristate";
+            const [value, condition] = splitCondition(rest);
+            symbol.defaults.push({
+              value: KconfigExpression.parse(value),
+              condition,
+            });
+          }
+        } else if (keyword === "default" && (symbol || choice)) {
+          const [value, condition] = splitCondition(rest);
+          (symbol ?? choice)!.defaults.push({
+            value: KconfigExpression.parse(value),
+            condition,
+          });
+        } else if (keyword === "select" && symbol) {
+          const [name, condition] = splitCondition(rest);
+          symbol.selects.push({ symbol: name, condition });
+        } else if (keyword === "range" && symbol) {
+          const [bounds, condition] = splitCondition(rest);
+          const [min, max] = bounds.split(/\s+/);
+          symbol.ranges.push({ min, max, condition });
+        }
+        // imply, option, modules, visible if... do not affect validation
+      }
+
+      finish(entry);
+      sourcing.pop();
+    };
+
+    await parseFile(options?.entry ?? "Kconfig", "kconfig", false);
+    if (blocks.length > 0) {
+      throw new Error("Kconfig: unterminated if/menu/choice block");
+    }
+
+    for (const [name, deps] of definitions) {
+      // A definition without dependencies makes the symbol always available
+      if (deps.some((dep) => dep === undefined)) continue;
+      kconfig.symbols[name].dependsOn = deps.reduce<KconfigExpr | undefined>(
+        (left, right) => (left ? { op: "or", left, right: right! } : right),
+        undefined
+      );
+    }
+    return kconfig;
+  }
+}
+
+export type KconfigIssueKind =
+  | "unknown"
+  | "type"
+  | "range"
+  | "dependency"
+  | "select"
+  | "choice";
+
+/**
+ * A problem found in a config by `KconfigValidator`
+ */
+export interface KconfigIssue {
+  kind: KconfigIssueKind;
+  /** Config key (with the CONFIG_ prefix) */
+  key: string;
+  message: string;
+}
+
+const isSet = (value: ConfigValue | undefined): boolean =>
+  value !== undefined && value !== "n" && value !== false;
+
+// .config value as Kconfig sees it (unset bool/tristate is "n", else "")
+function kconfigValue(
+  value: ConfigValue | undefined,
+  type: KconfigType | undefined
+): string {
+  if (!isSet(value)) {
+    return type === undefined || type === "bool" || type === "tristate"
+      ? "n"
+      : "";
+  }
+  if (value === true) return "y";
+  if (typeof value === "number" && type === "hex") {
+    return `0x${value.toString(16)}`;
+  }
+  return String(value);
+}
+
+/**
+ * Symbol lookup for `KconfigExpression.evaluate`: the config's value of a
+ * Kconfig symbol, or undefined when the word is not a symbol
+ */
+export function kconfigValueOf(
+  config: KernelConfig,
+  kconfig: Kconfig
+): (name: string) => string | undefined {
+  return (name) => {
+    const symbol = kconfig.symbols[name];
+    return symbol
+      ? kconfigValue(config.flatConfig[`CONFIG_${name}`], symbol.type)
+      : undefined;
+  };
+}
+
+/**
+ * Check a config against the Kconfig tree it will be built from
+ */
+export class KconfigValidator {
+  /**
+   * Report unknown symbols, type mismatches, out-of-range values, unmet
+   * dependencies, unsatisfied selects and conflicting choice members
+   */
+  static validate(config: KernelConfig, kconfig: Kconfig): KconfigIssue[] {
+    const issues: KconfigIssue[] = [];
+    const flat = config.flatConfig;
+    const valueOf = kconfigValueOf(config, kconfig);
+    const evaluate = (expr: KconfigExpr) =>
+      KconfigExpression.evaluate(expr, valueOf);
+
+    for (const [key, value] of Object.entries(flat)) {
+      if (!isSet(value)) continue;
+      const symbol = kconfig.symbols[key.replace(/^CONFIG_/, "")];
+      if (!symbol) {
+        issues.push({
+          kind: "unknown",
+          key,
+          message: "is not defined by any Kconfig file",
+        });
+        continue;
+      }
+
+      const text = kconfigValue(value, symbol.type);
+      const typeError = this.checkType(text, value, symbol.type);
+      if (typeError) {
+        issues.push({ kind: "type", key, message: typeError });
+        continue;
+      }
+
+      const range = symbol.ranges.find(
+        (r) => !r.condition || evaluate(r.condition) > 0
+      );
+      if (range) {
+        const bound = (b: string) => valueOf(b) || b;
+        const [min, max] = [bound(range.min), bound(range.max)];
+        if (compareValues(text, min) < 0 || compareValues(text, max) > 0) {
+          issues.push({
+            kind: "range",
+            key,
+            message: `${text} is outside the range ${min}..${max}`,
+          });
+        }
+      }
+
+      if (symbol.dependsOn) {
+        // Macros probe the toolchain, which the .config already reflects:
+        // only report dependencies that fail whatever they return
+        const level = Math.max(
+          evaluate(symbol.dependsOn),
+          KconfigExpression.evaluate(symbol.dependsOn, valueOf, 2)
+        );
+        const deps = KconfigExpression.toString(symbol.dependsOn);
+        if (level === 0) {
+          issues.push({
+            kind: "dependency",
+            key,
+            message: `=${text} but its dependencies are not met: ${deps}`,
+          });
+        } else if (level === 1 && text === "y") {
+          issues.push({
+            kind: "dependency",
+            key,
+            message: `=y but its dependencies limit it to m: ${deps}`,
+          });
+        }
+      }
+
+      const level = TRISTATE[text] ?? 0;
+      for (const select of symbol.selects) {
+        if (select.condition && evaluate(select.condition) === 0) continue;
+        const target = kconfig.symbols[select.symbol];
+        const got = TRISTATE[valueOf(select.symbol) ?? "n"] ?? 0;
+        if (!target || got >= level) continue;
+        issues.push({
+          kind: "select",
+          key: `CONFIG_${select.symbol}`,
+          message: `is selected by ${key}=${text} but set to ${
+            valueOf(select.symbol) ?? "n"
+          }`,
+        });
+      }
+    }
+
+    for (const choice of kconfig.choices) {
+      const chosen = choice.symbols.filter((name) => valueOf(name) === "y");
+      for (const name of chosen.slice(1)) {
+        issues.push({
+          kind: "choice",
+          key: `CONFIG_${name}`,
+          message: `conflicts with CONFIG_${chosen[0]} in choice '${
+            choice.prompt ?? choice.name
+          }'`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * One line per issue: kind, key, then the message
+   */
+  static format(issues: KconfigIssue[]): string {
+    return issues
+      .map((issue) => `  ${issue.kind}  ${issue.key} ${issue.message}`)
+      .join("\n");
+  }
+
+  private static checkType(
+    text: string,
+    value: ConfigValue | undefined,
+    type: KconfigType | undefined
+  ): string | undefined {
+    const expected = (what: string) =>
+      `expected ${what} for a ${type} symbol, got ${JSON.stringify(value)}`;
+    switch (type) {
+      case "bool":
+        return text === "y" ? undefined : expected("y");
+      case "tristate":
+        return text === "y" || text === "m" ? undefined : expected("y or m");
+      case "int":
+        return /^-?\d+$/.test(text) ? undefined : expected("an integer");
+      case "hex":
+        return /^(0x)?[0-9a-f]+$/i.test(text)
+          ? undefined
+          : expected("a hex value");
+      default:
+        // Strings (and symbols without a type) take any value
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Reduce a full config to the symbols that differ from their Kconfig defaults,
+ * like `make savedefconfig`. Symbols without a prompt (computed ones such as
+ * CONFIG_GCC_VERSION), values forced by a `select`, choice members that match
+ * the choice's default and symbols this tree does not define are left out, so
+ * `make olddefconfig` rebuilds the same config from the result.
+ *
+ * @returns the minimal config, one line per symbol in Kconfig order
+ */
+export function minimize(config: KernelConfig, kconfig: Kconfig): string {
+  const valueOf = kconfigValueOf(config, kconfig);
+  const level = (expr: KconfigExpr | undefined) =>
+    expr ? KconfigExpression.evaluate(expr, valueOf) : 2;
+  const firstDefault = (defaults: KconfigDefault[]) =>
+    defaults.find((d) => level(d.condition) > 0);
+
+  // Selectors of each symbol, for values forced by reverse dependencies
+  const selectedBy = new Map<
+    string,
+    { selector: string; select: KconfigSelect }[]
+  >();
+  for (const symbol of Object.values(kconfig.symbols)) {
+    for (const select of symbol.selects) {
+      const list = selectedBy.get(select.symbol) ?? [];
+      list.push({ selector: symbol.name, select });
+      selectedBy.set(select.symbol, list);
+    }
+  }
+  const forcedLevel = (name: string) =>
+    Math.max(
+      0,
+      ...(selectedBy.get(name) ?? []).map(({ selector, select }) =>
+        Math.min(
+          TRISTATE[valueOf(selector) ?? "n"] ?? 0,
+          level(select.condition)
+        )
+      )
+    );
+
+  const defaultValue = (symbol: KconfigSymbol): string => {
+    const deps = level(symbol.dependsOn);
+    const found = firstDefault(symbol.defaults);
+    if (symbol.type === "bool" || symbol.type === "tristate") {
+      let value = found ? Math.min(level(found.value), deps) : 0;
+      value = Math.max(value, forcedLevel(symbol.name));
+      if (symbol.type === "bool" && value === 1) value = 2;
+      return ["n", "m", "y"][value];
+    }
+    return found && deps > 0
+      ? KconfigExpression.valueText(found.value, valueOf)
+      : "";
+  };
+
+  // Choice members to keep: the selected one, unless it is the default
+  const keepMembers = new Set<string>();
+  for (const choice of kconfig.choices) {
+    const selected = choice.symbols.find((name) => valueOf(name) === "y");
+    if (!selected) continue;
+    const found = firstDefault(choice.defaults);
+    const fallback = choice.symbols.find(
+      (name) => level(kconfig.symbols[name].dependsOn) > 0
+    );
+    const chosen = found?.value.op === "symbol" ? found.value.name : fallback;
+    if (selected !== chosen) keepMembers.add(selected);
+  }
+
+  const lines: string[] = [];
+  for (const symbol of Object.values(kconfig.symbols)) {
+    const key = `CONFIG_${symbol.name}`;
+    if (!(key in config.flatConfig)) continue;
+    if (symbol.choice) {
+      if (keepMembers.has(symbol.name)) lines.push(`${key}=y`);
+      continue;
+    }
+    if (symbol.prompt === undefined) continue;
+
+    const value = valueOf(symbol.name) ?? "";
+    if (compareValues(value, defaultValue(symbol)) === 0) continue;
+
+    if (symbol.type === "bool" || symbol.type === "tristate") {
+      lines.push(value === "n" ? `# ${key} is not set` : `${key}=${value}`);
+    } else if (symbol.type === "string") {
+      lines.push(`${key}="${value.replace(/(["\\])/g, "\\$1")}"`);
+    } else {
+      lines.push(`${key}=${value}`);
+    }
+  }
+  return lines.map((line) => `${line}\n`).join("");
+}
@@ -0,0 +1,721 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  explainSymbol,
+  formatSymbolExplanation,
+  type KconfigIssue,
+  KconfigExpression,
+  KconfigReader,
+  KconfigValidator,
+  KernelConfigParser,
+  minimize,
+} from "./build.ts";
+
+// A miniature kernel tree
+const tree: Record<string, string> = {
+  Kconfig: `
+mainmenu "Linux/$(ARCH) Kernel Configuration"
+
+source "scripts/Kconfig.include"
+source "arch/$(SRCARCH)/Kconfig"
+source "init/Kconfig"
+source "net/Kconfig"
+osource "missing/Kconfig"
+`,
+  "scripts/Kconfig.include": `
+cc-option = $(success,true)
+`,
+  "arch/x86/Kconfig": `
+config X86_64
+	def_bool y
+
+config NR_CPUS
+	int "Maximum number of CPUs" if SMP
+	range 2 512 if SMP
+	default "64"
+`,
+  "init/Kconfig": `
+config SMP
+	bool "Symmetric multi-processing support"
+	help
+	  config FAKE_FROM_HELP
+	  This text mentions Kconfig keywords but is not parsed.
+
+config PHYSICAL_START
+	hex "Physical address where the kernel is loaded"
+	range 0x100000 0x1000000
+
+choice
+	prompt "Preemption Model"
+
+config PREEMPT_NONE
+	bool "No Forced Preemption (Server)"
+
+config PREEMPT
+	bool "Preemptible Kernel (Low-Latency Desktop)"
+
+endchoice
+
+config LOCALVERSION
+	string "Local version"
+`,
+  "net/Kconfig": `
+menuconfig NET
+	bool "Networking support"
+	default y
+
+if NET
+
+config INET
+	bool "TCP/IP networking"
+	default NET
+	select CRYPTO_LIB if IPV6
+
+config IPV6
+	tristate "The IPv6 protocol"
+	depends on INET
+
+endif # NET
+
+config CRYPTO_LIB
+	tristate "Crypto library"
+
+rsource "drivers/Kconfig"
+`,
+  "net/drivers/Kconfig": `
+config VIRTIO_NET
+	tristate "Virtio network driver"
+	depends on NET && \\
+		VIRTIO
+	select NET_FAILOVER
+
+config NET_FAILOVER
+	tristate
+
+config VIRTIO
+	tristate
+`,
+};
+
+const readTree = (path: string) => Promise.resolve(tree[path]);
+
+// Excerpts of a real tree (linux-6.12): toolchain probes are $(...) calls of
+// the Kconfig preprocessor, with nested calls, quotes and parentheses
+const realTree: Record<string, string> = {
+  Kconfig: `
+mainmenu "Linux/$(ARCH) $(KERNELVERSION) Kernel Configuration"
+
+source "scripts/Kconfig.include"
+
+source "init/Kconfig"
+
+source "arch/$(SRCARCH)/Kconfig"
+
+source "arch/Kconfig"
+`,
+  "scripts/Kconfig.include": `
+# SPDX-License-Identifier: GPL-2.0-only
+# Kconfig helper macros
+
+# Convenient variables
+comma       := ,
+quote       := "
+squote      := '
+empty       :=
+space       := $(empty) $(empty)
+dollar      := $
+right_paren := )
+left_paren  := (
+
+# $(if-success,<command>,<then>,<else>)
+# Return <then> if <command> exits with 0, <else> otherwise.
+if-success = $(shell,{ $(1); } >/dev/null 2>&1 && echo "$(2)" || echo "$(3)")
+
+# $(success,<command>)
+# Return y if <command> exits with 0, n otherwise
+success = $(if-success,$(1),y,n)
+
+# $(cc-option,<flag>)
+# Return y if the compiler supports <flag>, n otherwise
+cc-option = $(success,trap "rm -rf .tmp_$$" EXIT; mkdir .tmp_$$; $(CC) -Werror $(CLANG_FLAGS) $(1) -S -x c /dev/null -o .tmp_$$/tmp.s)
+
+# Fail if the compiler is not found
+$(error-if,$(failure,command -v $(CC)),C compiler '$(CC)' not found)
+`,
+  "init/Kconfig": `
+# SPDX-License-Identifier: GPL-2.0-only
+config CC_VERSION_TEXT
+	string
+	default "$(CC_VERSION_TEXT)"
+	help
+	  This is used in unclear ways:
+
+config CC_IS_GCC
+	def_bool $(success,test "$(cc-name)" = GCC)
+
+config GCC_VERSION
+	int
+	default $(cc-version) if CC_IS_GCC
+	default 0
+
+config CC_IS_CLANG
+	def_bool $(success,test "$(cc-name)" = Clang)
+
+config GCC_ASM_GOTO_OUTPUT_BROKEN
+	bool
+	depends on CC_IS_GCC
+	default y if GCC_VERSION < 110500
+	default y if GCC_VERSION >= 120000 && GCC_VERSION < 120400
+	default y if GCC_VERSION >= 130000 && GCC_VERSION < 130300
+
+config CC_HAS_ASM_GOTO_OUTPUT
+	def_bool y
+	depends on !GCC_ASM_GOTO_OUTPUT_BROKEN
+	depends on $(success,echo 'int foo(int x) { asm goto ("": "=r"(x) ::: bar); return x; bar: return 0; }' | $(CC) -x c - -c -o /dev/null)
+
+config CC_CAN_LINK
+	bool
+	default $(success,$(srctree)/scripts/cc-can-link.sh $(CC) $(CLANG_FLAGS) $(USERCFLAGS) $(USERLDFLAGS) $(m64-flag)) if 64BIT
+	default $(success,$(srctree)/scripts/cc-can-link.sh $(CC) $(CLANG_FLAGS) $(USERCFLAGS) $(USERLDFLAGS) $(m32-flag))
+`,
+  "arch/x86/Kconfig": `
+# SPDX-License-Identifier: GPL-2.0
+config 64BIT
+	bool "64-bit kernel" if "$(ARCH)" = "x86"
+	default "$(ARCH)" != "i386"
+
+config X86
+	def_bool y
+	select HAVE_STACKPROTECTOR		if CC_HAS_SANE_STACKPROTECTOR
+
+config AS_WRUSS
+	def_bool $(as-instr64,wrussq %rax$(comma)(%rbx))
+	help
+	  Supported by binutils >= 2.31 and LLVM integrated assembler
+
+config CC_HAS_SANE_STACKPROTECTOR
+	bool
+	default $(success,$(srctree)/scripts/gcc-x86_64-has-stack-protector.sh $(CC) $(CLANG_FLAGS)) if 64BIT
+	default $(success,$(srctree)/scripts/gcc-x86_32-has-stack-protector.sh $(CC) $(CLANG_FLAGS))
+	help
+	  We have to make sure stack protector is unconditionally disabled if
+	  the compiler produces broken code or if it does not let us control
+	  the segment on 32-bit kernels.
+
+config X86_USER_SHADOW_STACK
+	bool "X86 userspace shadow stack"
+	depends on AS_WRUSS
+	depends on X86_64
+	help
+	  Shadow stack protection is a hardware feature that detects function
+	  return address corruption.
+`,
+  "arch/Kconfig": `
+# SPDX-License-Identifier: GPL-2.0
+config HAVE_STACKPROTECTOR
+	bool
+	help
+	  An arch should select this symbol if it supports the
+	  -fstack-protector compiler option
+
+config STACKPROTECTOR
+	bool "Stack Protector buffer overflow detection"
+	depends on HAVE_STACKPROTECTOR
+	depends on $(cc-option,-fstack-protector)
+	default y
+
+config STACKPROTECTOR_STRONG
+	bool "Strong Stack Protector"
+	depends on STACKPROTECTOR
+	depends on $(cc-option,-fstack-protector-strong)
+	default y
+`,
+};
+
+const readRealTree = (path: string) => Promise.resolve(realTree[path]);
+
+Deno.test("KconfigExpression parses, prints and evaluates", () => {
+  const expr = KconfigExpression.parse(
+    'NET && !(IPV6 = m || BROKEN) && X != ""'
+  );
+  assertEquals(
+    KconfigExpression.toString(expr),
+    'NET && !(IPV6 = m || BROKEN) && X != ""'
+  );
+
+  const values: Record<string, string> = { NET: "y", IPV6: "m", X: "a" };
+  assertEquals(
+    KconfigExpression.evaluate(expr, (name) => values[name]),
+    0
+  );
+  values.IPV6 = "y";
+  assertEquals(
+    KconfigExpression.evaluate(expr, (name) => values[name]),
+    2
+  );
+  values.NET = "m";
+  assertEquals(
+    KconfigExpression.evaluate(expr, (name) => values[name]),
+    1
+  );
+
+  const range = KconfigExpression.parse("NR_CPUS >= 0x40");
+  assertEquals(
+    KconfigExpression.evaluate(range, () => "64"),
+    2
+  );
+});
+
+Deno.test("KconfigExpression keeps $(...) macro calls opaque", () => {
+  const expr = KconfigExpression.parse(
+    "STACKPROTECTOR && $(cc-option,-fstack-protector-strong)"
+  );
+  assertEquals(
+    KconfigExpression.toString(expr),
+    "STACKPROTECTOR && $(cc-option,-fstack-protector-strong)"
+  );
+  assertEquals(KconfigExpression.symbols(expr), ["STACKPROTECTOR"]);
+  assertEquals(KconfigExpression.hasMacro(expr), true);
+
+  // Macros are n unless told otherwise
+  const valueOf = () => "y";
+  assertEquals(KconfigExpression.evaluate(expr, valueOf), 0);
+  assertEquals(KconfigExpression.evaluate(expr, valueOf, 2), 2);
+
+  const nested = KconfigExpression.parse(
+    "$(as-instr64,wrussq %rax$(comma)(%rbx))"
+  );
+  assertEquals(nested, {
+    op: "macro",
+    text: "$(as-instr64,wrussq %rax$(comma)(%rbx))",
+  });
+  assertThrows(
+    () => KconfigExpression.parse("$(cc-option,-fstack-protector"),
+    Error,
+    "Invalid Kconfig expression"
+  );
+});
+
+Deno.test(
+  "KconfigReader reads macro-based Kconfig of a real tree",
+  async () => {
+    const kconfig = await KconfigReader.parse(readRealTree, { arch: "x86" });
+    const {
+      CC_IS_GCC,
+      CC_HAS_ASM_GOTO_OUTPUT,
+      CC_CAN_LINK,
+      AS_WRUSS,
+      STACKPROTECTOR_STRONG,
+      X86_USER_SHADOW_STACK,
+    } = kconfig.symbols;
+
+    assertEquals(CC_IS_GCC.type, "bool");
+    assertEquals(
+      KconfigExpression.toString(CC_IS_GCC.defaults[0].value),
+      '$(success,test "$(cc-name)" = GCC)'
+    );
+    assertEquals(
+      KconfigExpression.toString(CC_HAS_ASM_GOTO_OUTPUT.dependsOn!),
+      '!GCC_ASM_GOTO_OUTPUT_BROKEN && $(success,echo \'int foo(int x) { asm goto ("": "=r"(x) ::: bar); return x; bar: return 0; }\' | $(CC) -x c - -c -o /dev/null)'
+    );
+    assertEquals(
+      CC_CAN_LINK.defaults.map(({ condition }) =>
+        condition ? KconfigExpression.toString(condition) : undefined
+      ),
+      ["64BIT", undefined]
+    );
+    assertEquals(AS_WRUSS.defaults[0].value.op, "macro");
+    assertEquals(
+      KconfigExpression.toString(STACKPROTECTOR_STRONG.dependsOn!),
+      "STACKPROTECTOR && $(cc-option,-fstack-protector-strong)"
+    );
+    assertEquals(X86_USER_SHADOW_STACK.locations, ["arch/x86/Kconfig:25"]);
+  }
+);
+
+Deno.test(
+  "KconfigValidator only reports macro dependencies that fail regardless",
+  async () => {
+    const kconfig = await KconfigReader.parse(readRealTree, { arch: "x86" });
+    const config = KernelConfigParser.parse(`
+CONFIG_64BIT=y
+CONFIG_X86=y
+CONFIG_CC_IS_GCC=y
+CONFIG_GCC_VERSION=140200
+CONFIG_CC_HAS_ASM_GOTO_OUTPUT=y
+CONFIG_CC_HAS_SANE_STACKPROTECTOR=y
+CONFIG_HAVE_STACKPROTECTOR=y
+CONFIG_STACKPROTECTOR=y
+CONFIG_STACKPROTECTOR_STRONG=y
+`);
+    assertEquals(KconfigValidator.validate(config, kconfig), []);
+
+    config.flatConfig.CONFIG_STACKPROTECTOR = undefined;
+    assertEquals(
+      KconfigValidator.validate(config, kconfig).map(({ kind, key }) => [
+        kind,
+        key,
+      ]),
+      [["dependency", "CONFIG_STACKPROTECTOR_STRONG"]]
+    );
+  }
+);
+
+Deno.test("KconfigReader reads symbols, blocks and sources", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+
+  assertEquals(Object.keys(kconfig.symbols).sort(), [
+    "CRYPTO_LIB",
+    "INET",
+    "IPV6",
+    "LOCALVERSION",
+    "NET",
+    "NET_FAILOVER",
+    "NR_CPUS",
+    "PHYSICAL_START",
+    "PREEMPT",
+    "PREEMPT_NONE",
+    "SMP",
+    "VIRTIO",
+    "VIRTIO_NET",
+    "X86_64",
+  ]);
+
+  const { IPV6, NR_CPUS, VIRTIO_NET, X86_64, INET } = kconfig.symbols;
+  assertEquals(X86_64.type, "bool");
+  assertEquals(IPV6.type, "tristate");
+  assertEquals(IPV6.locations, ["net/Kconfig:13"]);
+  assertEquals(KconfigExpression.toString(IPV6.dependsOn!), "NET && INET");
+  assertEquals(
+    KconfigExpression.toString(VIRTIO_NET.dependsOn!),
+    "NET && VIRTIO"
+  );
+  assertEquals(NR_CPUS.prompt, "Maximum number of CPUs");
+  assertEquals(
+    NR_CPUS.ranges.map(({ min, max }) => [min, max]),
+    [["2", "512"]]
+  );
+  assertEquals(INET.selects[0].symbol, "CRYPTO_LIB");
+  assertEquals(kconfig.choices, [
+    {
+      name: "<choice>@init/Kconfig:12",
+      prompt: "Preemption Model",
+      symbols: ["PREEMPT_NONE", "PREEMPT"],
+      defaults: [],
+    },
+  ]);
+});
+
+Deno.test("KconfigReader requires an arch for $(SRCARCH)", async () => {
+  await assertRejects(
+    () => KconfigReader.parse(readTree),
+    Error,
+    "without an arch"
+  );
+  await assertRejects(
+    () => KconfigReader.parse(readTree, { arch: "riscv" }),
+    Error,
+    "cannot read Kconfig file 'arch/riscv/Kconfig'"
+  );
+});
+
+Deno.test("KconfigValidator accepts a consistent config", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+CONFIG_X86_64=y
+CONFIG_SMP=y
+CONFIG_NR_CPUS=64
+CONFIG_PHYSICAL_START=0x1000000
+CONFIG_PREEMPT=y
+# CONFIG_PREEMPT_NONE is not set
+CONFIG_LOCALVERSION="-test"
+CONFIG_NET=y
+CONFIG_INET=y
+# CONFIG_IPV6 is not set
+CONFIG_VIRTIO=y
+CONFIG_VIRTIO_NET=m
+CONFIG_NET_FAILOVER=m
+`);
+  assertEquals(KconfigValidator.validate(config, kconfig), []);
+});
+
+Deno.test("KconfigValidator reports every kind of issue", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+CONFIG_SMP=m
+CONFIG_NR_CPUS=1024
+CONFIG_PHYSICAL_START=0x10
+CONFIG_PREEMPT=y
+CONFIG_PREEMPT_NONE=y
+CONFIG_INET=y
+CONFIG_IPV6=y
+CONFIG_VIRTIO=m
+CONFIG_VIRTIO_NET=y
+CONFIG_NOT_A_SYMBOL=y
+# CONFIG_NET is not set
+`);
+
+  const issues = KconfigValidator.validate(config, kconfig);
+  const summary = issues.map(({ kind, key }: KconfigIssue) => `${kind} ${key}`);
+  assertEquals(summary, [
+    "type CONFIG_SMP",
+    "range CONFIG_NR_CPUS",
+    "range CONFIG_PHYSICAL_START",
+    "dependency CONFIG_INET",
+    "select CONFIG_CRYPTO_LIB",
+    "dependency CONFIG_IPV6",
+    "dependency CONFIG_VIRTIO_NET",
+    "select CONFIG_NET_FAILOVER",
+    "unknown CONFIG_NOT_A_SYMBOL",
+    "choice CONFIG_PREEMPT",
+  ]);
+
+  assertEquals(
+    issues.find((issue) => issue.key === "CONFIG_PHYSICAL_START")?.message,
+    "0x10 is outside the range 0x100000..0x1000000"
+  );
+  assertEquals(
+    issues.find((issue) => issue.key === "CONFIG_SMP")?.message,
+    'expected y for a bool symbol, got "m"'
+  );
+  assertEquals(
+    issues.find((issue) => issue.key === "CONFIG_VIRTIO_NET")?.message,
+    "=y but its dependencies are not met: NET && VIRTIO"
+  );
+});
+
+Deno.test("explainSymbol shows unmet dependencies down the chain", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+# CONFIG_NET is not set
+# CONFIG_VIRTIO_NET is not set
+`);
+
+  const explanation = explainSymbol(config, "CONFIG_IPV6", { kconfig });
+  assertEquals(explanation.defined, true);
+  assertEquals(explanation.type, "tristate");
+  assertEquals(explanation.dependsOn, { expr: "NET && INET", value: "n" });
+  assertEquals(explanation.unmet, [
+    {
+      expr: "NET",
+      value: "n",
+      symbols: [{ key: "CONFIG_NET", value: "n", unmet: [] }],
+    },
+    {
+      expr: "INET",
+      value: "n",
+      symbols: [
+        {
+          key: "CONFIG_INET",
+          value: "n",
+          unmet: [{ expr: "NET", value: "n", symbols: [] }],
+        },
+      ],
+    },
+  ]);
+  assertEquals(
+    formatSymbolExplanation(explanation),
+    [
+      'CONFIG_IPV6 is not set (tristate "The IPv6 protocol")',
+      "  defined at net/Kconfig:13",
+      "  depends on: NET && INET [=n]",
+      "    unmet: NET [=n]",
+      "      CONFIG_NET=n",
+      "    unmet: INET [=n]",
+      "      CONFIG_INET=n",
+      "        unmet: NET [=n]",
+    ].join("\n")
+  );
+});
+
+Deno.test(
+  "explainSymbol reports selects and the setting fragment",
+  async () => {
+    const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+    const config = KernelConfigParser.parse(`
+CONFIG_NET=y
+CONFIG_VIRTIO=y
+CONFIG_VIRTIO_NET=y
+CONFIG_NET_FAILOVER=y
+`);
+    const provenance = {
+      CONFIG_NET_FAILOVER: {
+        key: "CONFIG_NET_FAILOVER",
+        value: "y" as const,
+        source: "net.config",
+        line: "CONFIG_NET_FAILOVER=y",
+        overridden: [{ source: "default-config.ts", value: "m" as const }],
+      },
+    };
+
+    const explanation = explainSymbol(config, "NET_FAILOVER", {
+      kconfig,
+      provenance,
+    });
+    assertEquals(explanation.key, "CONFIG_NET_FAILOVER");
+    assertEquals(explanation.dependsOn, undefined);
+    assertEquals(explanation.selectedBy, [
+      { key: "CONFIG_VIRTIO_NET", value: "y", active: true },
+    ]);
+    assertEquals(formatSymbolExplanation(explanation).split("\n").slice(-3), [
+      "  selected by:",
+      "    CONFIG_VIRTIO_NET=y (active)",
+      "  set by net.config: CONFIG_NET_FAILOVER=y (was m from default-config.ts)",
+    ]);
+
+    const unknown = explainSymbol(config, "CONFIG_NOPE", { kconfig });
+    assertEquals(unknown.defined, false);
+    assertEquals(unknown.locations, []);
+  }
+);
+
+Deno.test("minimize keeps only symbols that differ from defaults", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+CONFIG_GCC_VERSION=130300
+CONFIG_X86_64=y
+CONFIG_SMP=y
+CONFIG_NR_CPUS=64
+CONFIG_PHYSICAL_START=0x1000000
+# CONFIG_PREEMPT_NONE is not set
+CONFIG_PREEMPT=y
+CONFIG_LOCALVERSION="-test"
+CONFIG_NET=y
+CONFIG_INET=y
+CONFIG_IPV6=y
+CONFIG_CRYPTO_LIB=y
+CONFIG_VIRTIO=y
+CONFIG_VIRTIO_NET=m
+CONFIG_NET_FAILOVER=m
+`);
+
+  assertEquals(
+    minimize(config, kconfig),
+    [
+      "CONFIG_SMP=y",
+      "CONFIG_PHYSICAL_START=0x1000000",
+      "CONFIG_PREEMPT=y",
+      'CONFIG_LOCALVERSION="-test"',
+      "CONFIG_IPV6=y",
+      "CONFIG_VIRTIO_NET=m",
+      "",
+    ].join("\n")
+  );
+});
+
+Deno.test("minimize keeps symbols disabled against their default", async () => {
+  const kconfig = await KconfigReader.parse(readTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+# CONFIG_NET is not set
+# CONFIG_INET is not set
+CONFIG_PREEMPT_NONE=y
+# CONFIG_PREEMPT is not set
+CONFIG_NR_CPUS=64
+`);
+
+  // INET defaults to NET (off), NR_CPUS matches its default and PREEMPT_NONE
+  // is the choice's first member
+  assertEquals(minimize(config, kconfig), "# CONFIG_NET is not set\n");
+});
+
+Deno.test("minimize drops computed symbols of a real tree", async () => {
+  const kconfig = await KconfigReader.parse(readRealTree, { arch: "x86" });
+  const config = KernelConfigParser.parse(`
+CONFIG_CC_VERSION_TEXT="gcc (GCC) 14.2.0"
+CONFIG_CC_IS_GCC=y
+CONFIG_GCC_VERSION=140200
+# CONFIG_CC_IS_CLANG is not set
+`);
+  assertEquals(minimize(config, kconfig), "");
+
+  // Strings are written back quoted and escaped
+  const local = KernelConfigParser.parse('CONFIG_LOCALVERSION="-a\\"b"\n');
+  assertEquals(
+    minimize(local, await KconfigReader.parse(readTree, { arch: "x86" })),
+    'CONFIG_LOCALVERSION="-a\\"b"\n'
+  );
+});
+
+Deno.test(
+  "explain symbols of a real tree with macro dependencies",
+  async () => {
+    // As `why` does: the Kconfig files of a checkout on disk
+    const srcDir = await Deno.makeTempDir();
+    try {
+      for (const [path, content] of Object.entries(realTree)) {
+        const file = `${srcDir}/${path}`;
+        await Deno.mkdir(file.slice(0, file.lastIndexOf("/")), {
+          recursive: true,
+        });
+        await Deno.writeTextFile(file, content);
+      }
+      const kconfig = await KconfigReader.read(srcDir, { arch: "x86" });
+      const config = KernelConfigParser.parse(`
+CONFIG_64BIT=y
+CONFIG_X86=y
+CONFIG_CC_IS_GCC=y
+CONFIG_HAVE_STACKPROTECTOR=y
+CONFIG_STACKPROTECTOR=y
+CONFIG_STACKPROTECTOR_STRONG=y
+# CONFIG_X86_USER_SHADOW_STACK is not set
+`);
+
+      // On: the probe it depends on passed
+      const strong = explainSymbol(config, "CONFIG_STACKPROTECTOR_STRONG", {
+        kconfig,
+      });
+      assertEquals(strong.dependsOn, {
+        expr: "STACKPROTECTOR && $(cc-option,-fstack-protector-strong)",
+        value: "y",
+      });
+      assertEquals(strong.unmet, []);
+
+      // Off: the assembler probe behind AS_WRUSS did not set it
+      assertEquals(
+        formatSymbolExplanation(
+          explainSymbol(config, "CONFIG_X86_USER_SHADOW_STACK", { kconfig })
+        ),
+        [
+          'CONFIG_X86_USER_SHADOW_STACK is not set (bool "X86 userspace shadow stack")',
+          "  defined at arch/x86/Kconfig:25",
+          "  depends on: AS_WRUSS && X86_64 [=n]",
+          "    unmet: AS_WRUSS [=n]",
+          "      CONFIG_AS_WRUSS=n",
+          "    unmet: X86_64 [=n]",
+        ].join("\n")
+      );
+
+      config.flatConfig.CONFIG_STACKPROTECTOR = undefined;
+      config.flatConfig.CONFIG_STACKPROTECTOR_STRONG = undefined;
+      assertEquals(
+        explainSymbol(config, "CONFIG_STACKPROTECTOR_STRONG", { kconfig })
+          .unmet,
+        [
+          {
+            expr: "STACKPROTECTOR",
+            value: "n",
+            symbols: [
+              {
+                key: "CONFIG_STACKPROTECTOR",
+                value: "n",
+                unmet: [
+                  {
+                    expr: "$(cc-option,-fstack-protector)",
+                    value: "n",
+                    symbols: [],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            expr: "$(cc-option,-fstack-protector-strong)",
+            value: "n",
+            symbols: [],
+          },
+        ]
+      );
+    } finally {
+      await Deno.remove(srcDir, { recursive: true });
+    }
+  }
+);
@@ -0,0 +1,377 @@
+import * as toml from "@std/toml";
+import * as yaml from "@std/yaml";
+import z from "@zod/zod";
+import { BuildError } from "./exec.ts";
+import {
+  type BuildOptions,
+  parseBuildOptions,
+  type UImageOptions,
+  UImageOptionsSchema,
+} from "./options.ts";
+
+/**
+ * Zod schema for build manifests (vmlinux-builder.toml / .json / .yaml).
+ *
+ * Top-level keys are defaults shared by every target; each entry of
+ * `targets` is merged over them:
+ *
+ * ```toml
+ * version = "6.16.y"
+ *
+ * [artifacts]
+ * modules = true
+ *
+ * [targets.firecracker]
+ * profiles = ["firecracker"]
+ * outDir = "out/firecracker"
+ * fragments = ["configs/firecracker.config"]
+ *
+ * [targets.debug]
+ * config = { CONFIG_DEBUG_INFO = "y" }
+ *
+ * [targets.arm64]
+ * arch = "arm64"
+ * ```
+ */
+
+// Requested artifacts (vmlinux is always built)
+const ManifestArtifactsSchema: z.ZodType<{
+  image?: boolean | undefined;
+  uimage?: boolean | UImageOptions | undefined;
+  initrd?: boolean | undefined;
+  modules?: boolean | undefined;
+}> = z.object({
+  image: z.boolean().optional(), // arm64 boot Image (default: true)
+  uimage: z.union([z.boolean(), UImageOptionsSchema]).optional(),
+  initrd: z.boolean().optional(),
+  modules: z.boolean().optional(),
+});
+
+const manifestTargetShape = {
+  version: z.string().optional(),
+  repo: z.string().optional(),
+  ref: z.string().optional(),
+  label: z.string().optional(),
+  source: z.string().optional(),
+  tarball: z.string().optional(),
+  tarballSha256: z.string().optional(),
+  tarballSignature: z.string().optional(),
+  patches: z.array(z.string()).optional(),
+  arch: z.string().optional(),
+  crossCompile: z.string().optional(),
+  toolchain: z.string().optional(),
+  llvmVersion: z.string().optional(),
+  llvmIas: z.boolean().optional(),
+  ccache: z.boolean().optional(),
+  ccacheDir: z.string().optional(),
+  defconfig: z.string().optional(),
+  mergeConfig: z.string().optional(),
+  fragments: z.array(z.string()).optional(),
+  profiles: z.array(z.string()).optional(),
+  strictConfig: z.boolean().optional(),
+  saveDefconfig: z.string().optional(),
+  force: z.boolean().optional(),
+  outDir: z.string().optional(),
+  cacheDir: z.string().optional(),
+  config: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
+  artifacts: ManifestArtifactsSchema.optional(),
+};
+
+interface ManifestTargetFields {
+  version?: string | undefined;
+  repo?: string | undefined;
+  ref?: string | undefined;
+  label?: string | undefined;
+  source?: string | undefined;
+  tarball?: string | undefined;
+  tarballSha256?: string | undefined;
+  tarballSignature?: string | undefined;
+  patches?: string[] | undefined;
+  arch?: string | undefined;
+  crossCompile?: string | undefined;
+  toolchain?: string | undefined;
+  llvmVersion?: string | undefined;
+  llvmIas?: boolean | undefined;
+  ccache?: boolean | undefined;
+  ccacheDir?: string | undefined;
+  defconfig?: string | undefined;
+  mergeConfig?: string | undefined;
+  fragments?: string[] | undefined;
+  profiles?: string[] | undefined;
+  strictConfig?: boolean | undefined;
+  saveDefconfig?: string | undefined;
+  force?: boolean | undefined;
+  outDir?: string | undefined;
+  cacheDir?: string | undefined;
+  config?: Record<string, string | number | boolean> | undefined;
+  artifacts?: ManifestArtifacts | undefined;
+}
+
+// A single build target
+export const ManifestTargetSchema: z.ZodType<ManifestTargetFields> =
+  z.object(manifestTargetShape);
+
+// Main manifest schema
+export const ManifestSchema: z.ZodType<
+  ManifestTargetFields & {
+    targets?: Record<string, ManifestTargetFields> | undefined;
+  }
+> = z.object({
+  ...manifestTargetShape,
+  targets: z
+    .record(
+      z.string().regex(/^[A-Za-z0-9._-]+$/, "invalid target name"),
+      ManifestTargetSchema
+    )
+    .optional(),
+});
+
+// TypeScript types derived from schemas
+export type ManifestArtifacts = z.infer<typeof ManifestArtifactsSchema>;
+export type ManifestTarget = z.infer<typeof ManifestTargetSchema>;
+export type Manifest = z.infer<typeof ManifestSchema>;
+
+export type ManifestFormat = "toml" | "json" | "yaml";
+
+/**
+ * A manifest target resolved to validated build options
+ */
+export interface ResolvedTarget {
+  name: string;
+  options: BuildOptions;
+}
+
+/** Name given to the target of a manifest without a `targets` table. */
+export const DEFAULT_TARGET = "default";
+
+/**
+ * Parse and validate manifest content
+ */
+export function parseManifest(
+  content: string,
+  format: ManifestFormat
+): Manifest {
+  let data: unknown;
+  try {
+    if (format === "toml") {
+      data = toml.parse(content);
+    } else if (format === "json") {
+      data = JSON.parse(content);
+    } else {
+      data = yaml.parse(content);
+    }
+  } catch (error) {
+    throw new BuildError(`Failed to parse ${format} manifest: ${error}`);
+  }
+
+  const result = ManifestSchema.safeParse(data);
+  if (!result.success) {
+    const lines = result.error.issues.map(
+      (issue) => `  - ${issue.path.join(".") || "manifest"}: ${issue.message}`
+    );
+    throw new BuildError(["Invalid manifest:", ...lines].join("\n"));
+  }
+  return result.data;
+}
+
+/**
+ * Detect the manifest format from a file extension
+ */
+export function manifestFormat(path: string): ManifestFormat {
+  if (/\.toml$/i.test(path)) return "toml";
+  if (/\.json$/i.test(path)) return "json";
+  if (/\.ya?ml$/i.test(path)) return "yaml";
+  throw new BuildError(
+    `Unsupported manifest '${path}': expected a .toml, .json, .yaml or .yml file`
+  );
+}
+
+// Fields holding a local path (or a URL, kept as is); see BuildOptionsSchema
+// for how the same options resolve outside a manifest
+const PATH_FIELDS = [
+  "mergeConfig",
+  "tarball",
+  "tarballSignature",
+  "saveDefconfig",
+  "ccacheDir",
+  "outDir",
+  "cacheDir",
+] as const;
+const PATH_LIST_FIELDS = ["fragments", "patches"] as const;
+
+/**
+ * Read a manifest file. Every local path (config sources, patches, tarballs,
+ * output and cache directories) is made absolute relative to the manifest's
+ * directory, so a manifest builds the same from any working directory.
+ */
+export async function loadManifest(path: string): Promise<Manifest> {
+  const format = manifestFormat(path);
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new BuildError(`Failed to read manifest '${path}': ${error}`);
+  }
+
+  const manifest = parseManifest(content, format);
+  const abs = path.startsWith("/") ? path : `${Deno.cwd()}/${path}`;
+  return resolveManifestPaths(manifest, abs.slice(0, abs.lastIndexOf("/")));
+}
+
+/**
+ * Make the local paths of a manifest and its targets absolute relative to
+ * `baseDir`; absolute paths and http(s) URLs are kept
+ */
+export function resolveManifestPaths(
+  manifest: Manifest,
+  baseDir: string
+): Manifest {
+  const resolveTarget = (target: ManifestTarget): ManifestTarget => {
+    const resolved = { ...target };
+    for (const field of PATH_FIELDS) {
+      const value = resolved[field];
+      if (value) resolved[field] = resolvePath(value, baseDir);
+    }
+    for (const field of PATH_LIST_FIELDS) {
+      const values = resolved[field];
+      if (values) resolved[field] = values.map((p) => resolvePath(p, baseDir));
+    }
+    return resolved;
+  };
+
+  const { targets, ...defaults } = manifest;
+  const resolved: Manifest = resolveTarget(defaults);
+  if (targets) {
+    resolved.targets = Object.fromEntries(
+      Object.entries(targets).map(([name, target]) => [
+        name,
+        resolveTarget(target),
+      ])
+    );
+  }
+  return resolved;
+}
+
+function resolvePath(source: string, baseDir: string): string {
+  if (/^https?:\/\//i.test(source) || source.startsWith("/")) return source;
+  return `${baseDir}/${source.replace(/^\.\//, "")}`;
+}
+
+/**
+ * Resolve manifest targets into validated build options. Targets inherit the
+ * top-level keys: scalars are overridden, `config` and `artifacts` are merged
+ * key by key and `fragments`/`profiles`/`patches` are appended after the
+ * shared ones.
+ *
+ * @param name only resolve this target (default: every target)
+ * @param overrides options applied over every target (e.g. CLI flags)
+ */
+export function resolveManifestTargets(
+  manifest: Manifest,
+  name?: string,
+  overrides?: BuildOptions
+): ResolvedTarget[] {
+  const { targets, ...defaults } = manifest;
+
+  const entries: [string, ManifestTarget][] =
+    targets && Object.keys(targets).length > 0
+      ? Object.entries(targets)
+      : [[DEFAULT_TARGET, {}]];
+
+  const selected = name
+    ? entries.filter(([targetName]) => targetName === name)
+    : entries;
+  if (selected.length === 0) {
+    throw new BuildError(
+      `Unknown target '${name}'. Available targets: ${entries
+        .map(([targetName]) => targetName)
+        .join(", ")}`
+    );
+  }
+
+  // Overrides replace scalars but add to the target's fragments, profiles,
+  // patches and inline config.
+  const withOverrides = (options: BuildOptions): BuildOptions => {
+    const result = { ...options, ...overrides };
+    if (overrides?.fragments) {
+      result.fragments = [...(options.fragments ?? []), ...overrides.fragments];
+    }
+    if (overrides?.profiles) {
+      result.profiles = [...(options.profiles ?? []), ...overrides.profiles];
+    }
+    if (overrides?.patches) {
+      result.patches = [...(options.patches ?? []), ...overrides.patches];
+    }
+    if (overrides?.config) {
+      result.config = { ...options.config, ...overrides.config };
+    }
+    return result;
+  };
+
+  return selected.map(([targetName, target]) => {
+    const merged: ManifestTarget = {
+      ...defaults,
+      ...target,
+      fragments: [...(defaults.fragments ?? []), ...(target.fragments ?? [])],
+      profiles: [...(defaults.profiles ?? []), ...(target.profiles ?? [])],
+      patches: [...(defaults.patches ?? []), ...(target.patches ?? [])],
+      config: { ...defaults.config, ...target.config },
+      artifacts: { ...defaults.artifacts, ...target.artifacts },
+    };
+
+    try {
+      return {
+        name: targetName,
+        options: parseBuildOptions(withOverrides(toBuildOptions(merged))),
+      };
+    } catch (error) {
+      if (error instanceof BuildError) {
+        throw new BuildError(`Target '${targetName}': ${error.message}`);
+      }
+      throw error;
+    }
+  });
+}
+
+function toBuildOptions(target: ManifestTarget): BuildOptions {
+  const { artifacts = {} } = target;
+  const uimage = artifacts.uimage === true ? {} : artifacts.uimage || undefined;
+
+  return {
+    version: target.version,
+    repo: target.repo,
+    branch: target.ref,
+    label: target.label,
+    source: target.source as BuildOptions["source"],
+    tarball: target.tarball,
+    tarballSha256: target.tarballSha256,
+    tarballSignature: target.tarballSignature,
+    patches: target.patches?.length ? target.patches : undefined,
+    arch: target.arch as BuildOptions["arch"],
+    crossCompile: target.crossCompile,
+    toolchain: target.toolchain as BuildOptions["toolchain"],
+    llvmVersion: target.llvmVersion,
+    llvmIas: target.llvmIas,
+    ccache: target.ccache,
+    ccacheDir: target.ccacheDir,
+    defconfig: target.defconfig,
+    mergeConfig: target.mergeConfig,
+    fragments: target.fragments?.length ? target.fragments : undefined,
+    profiles: target.profiles?.length ? target.profiles : undefined,
+    strictConfig: target.strictConfig,
+    saveDefconfig: target.saveDefconfig,
+    force: target.force,
+    outDir: target.outDir,
+    cacheDir: target.cacheDir,
+    config:
+      target.config && Object.keys(target.config).length > 0
+        ? target.config
+        : undefined,
+    image: artifacts.image,
+    uimage,
+    initrd: artifacts.initrd,
+    modules: artifacts.modules,
+  };
+}
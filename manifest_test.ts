@@ -0,0 +1,163 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  BuildError,
+  manifestFormat,
+  parseManifest,
+  resolveManifestPaths,
+  resolveManifestTargets,
+} from "./build.ts";
+
+const manifestToml = `
+version = "6.16.y"
+fragments = ["/configs/base.config"]
+
+[artifacts]
+modules = true
+
+[targets.firecracker]
+profiles = ["firecracker", "debug"]
+outDir = "out/firecracker"
+config = { CONFIG_LOCALVERSION = "-fc" }
+
+[targets.orangepi]
+repo = "https://github.com/tsirysndr/linux-orangepi"
+ref = "orange-pi-6.6-sun60iw2"
+defconfig = "sun60iw2_defconfig"
+fragments = ["/configs/board.config"]
+
+[targets.orangepi.artifacts]
+initrd = true
+uimage = { comp = "gzip" }
+`;
+
+Deno.test("resolve every manifest target with inherited defaults", () => {
+  const targets = resolveManifestTargets(parseManifest(manifestToml, "toml"));
+  assertEquals(
+    targets.map((target) => target.name),
+    ["firecracker", "orangepi"]
+  );
+
+  const [firecracker, orangepi] = targets;
+  assertEquals(firecracker.options.version, "6.16.y");
+  assertEquals(firecracker.options.modules, true);
+  assertEquals(firecracker.options.config, { CONFIG_LOCALVERSION: "-fc" });
+  assertEquals(firecracker.options.profiles, ["firecracker", "debug"]);
+  assertEquals(firecracker.options.outDir, "out/firecracker");
+  assertEquals(orangepi.options.profiles, undefined);
+
+  assertEquals(orangepi.options.branch, "orange-pi-6.6-sun60iw2");
+  assertEquals(orangepi.options.fragments, [
+    "/configs/base.config",
+    "/configs/board.config",
+  ]);
+  assertEquals(orangepi.options.initrd, true);
+  assertEquals(orangepi.options.uimage, { comp: "gzip" });
+});
+
+Deno.test("resolve a single target with overrides", () => {
+  const [target] = resolveManifestTargets(
+    parseManifest(manifestToml, "toml"),
+    "firecracker",
+    { version: "6.1.y" }
+  );
+  assertEquals(target.options.version, "6.1.y");
+});
+
+Deno.test("manifest without targets builds a default target", () => {
+  const manifest = parseManifest(
+    JSON.stringify({ version: "6.1.12", artifacts: { image: false } }),
+    "json"
+  );
+  const [target] = resolveManifestTargets(manifest);
+  assertEquals(target.name, "default");
+  assertEquals(target.options.image, false);
+});
+
+Deno.test("parse YAML manifests", () => {
+  const manifest = parseManifest(
+    "version: '6.6.y'\ntargets:\n  minimal:\n    label: mini\n",
+    "yaml"
+  );
+  assertEquals(manifest.targets?.minimal.label, "mini");
+});
+
+Deno.test("report unknown targets and invalid target options", () => {
+  const manifest = parseManifest(manifestToml, "toml");
+  assertThrows(
+    () => resolveManifestTargets(manifest, "qemu"),
+    BuildError,
+    "Available targets: firecracker, orangepi"
+  );
+  assertThrows(
+    () => resolveManifestTargets({ targets: { broken: { version: "6" } } }),
+    BuildError,
+    "Target 'broken'"
+  );
+});
+
+Deno.test("reject invalid manifests", () => {
+  assertThrows(
+    () => parseManifest(`version = 6`, "toml"),
+    BuildError,
+    "Invalid manifest"
+  );
+  assertThrows(() => manifestFormat("builds.ini"), BuildError);
+});
+
+Deno.test("resolve every manifest path relative to the manifest", () => {
+  const manifest = resolveManifestPaths(
+    parseManifest(
+      `
+mergeConfig = "configs/base.config"
+tarball = "https://mirror.example.com/pub/linux/kernel"
+tarballSignature = "sigs/linux-6.16.2.tar.sign"
+outDir = "out"
+cacheDir = "/var/cache/vmlinux-builder"
+ccacheDir = ".ccache"
+patches = ["patches"]
+
+[targets.firecracker]
+fragments = ["./configs/firecracker.config"]
+outDir = "out/firecracker"
+saveDefconfig = "configs/firecracker.defconfig"
+`,
+      "toml"
+    ),
+    "/srv/kernels"
+  );
+  assertEquals(manifest.mergeConfig, "/srv/kernels/configs/base.config");
+  assertEquals(manifest.tarball, "https://mirror.example.com/pub/linux/kernel");
+  assertEquals(
+    manifest.tarballSignature,
+    "/srv/kernels/sigs/linux-6.16.2.tar.sign"
+  );
+  assertEquals(manifest.outDir, "/srv/kernels/out");
+  assertEquals(manifest.cacheDir, "/var/cache/vmlinux-builder");
+  assertEquals(manifest.ccacheDir, "/srv/kernels/.ccache");
+  assertEquals(manifest.patches, ["/srv/kernels/patches"]);
+  assertEquals(manifest.targets?.firecracker, {
+    fragments: ["/srv/kernels/configs/firecracker.config"],
+    outDir: "/srv/kernels/out/firecracker",
+    saveDefconfig: "/srv/kernels/configs/firecracker.defconfig",
+  });
+});
+
+Deno.test("manifests take saveDefconfig and force", () => {
+  const [target] = resolveManifestTargets(
+    parseManifest(
+      `
+version = "6.16.y"
+force = true
+
+[targets.firecracker]
+saveDefconfig = "/srv/kernels/configs/firecracker.defconfig"
+`,
+      "toml"
+    )
+  );
+  assertEquals(target.options.force, true);
+  assertEquals(
+    target.options.saveDefconfig,
+    "/srv/kernels/configs/firecracker.defconfig"
+  );
+});
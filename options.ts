@@ -0,0 +1,366 @@
+import z from "@zod/zod";
+import { DEFAULT_CONFIG_ARCHES, KernelConfigProfiles } from "./config.ts";
+import { BuildError } from "./exec.ts";
+import { KernelVersion } from "./version.ts";
+
+/**
+ * Zod schemas for the build options accepted by `buildKernel` and the CLI.
+ * Everything is validated up front so a bad flag is reported before any
+ * clone or apt-get happens.
+ */
+
+const HEX_ADDRESS_REGEX = /^0x[0-9a-fA-F]+$/;
+const LABEL_REGEX = /^[A-Za-z0-9._-]+$/;
+
+// Versions of the stable repository: X.Y, X.Y.Z, X.Y.y or X.Y[.Z]-rcN with an
+// optional leading v, or the latest/longterm aliases. Vendor suffixes
+// (6.6.98-sun60iw2) only exist in custom repositories.
+function isStableVersion(version: string): boolean {
+  if (version === "latest" || version === "longterm") return true;
+  const parsed = KernelVersion.tryParse(version);
+  return parsed !== undefined && parsed.suffix === undefined;
+}
+
+/** Compression types understood by `mkimage -C` */
+export const UIMAGE_COMPRESSIONS = [
+  "none",
+  "gzip",
+  "bzip2",
+  "lzma",
+  "lzo",
+  "lz4",
+  "zstd",
+] as const;
+
+/** Where the kernel sources come from */
+export const SOURCES = ["git", "tarball"] as const;
+
+/** Compiler toolchains a kernel can be built with */
+export const TOOLCHAINS = ["gcc", "llvm"] as const;
+
+const hexAddress = z
+  .string()
+  .regex(HEX_ADDRESS_REGEX, "expected a hex address like 0x41000000");
+
+// mkimage parameters for the U-Boot uImage (arm64 only)
+export const UImageOptionsSchema: z.ZodType<{
+  arch?: string | undefined;
+  os?: string | undefined;
+  type?: string | undefined;
+  comp?: (typeof UIMAGE_COMPRESSIONS)[number] | undefined;
+  load?: string | undefined;
+  entry?: string | undefined;
+  name?: string | undefined;
+}> = z.object({
+  arch: z.string().min(1).optional(), // mkimage -A (default: arm)
+  os: z.string().min(1).optional(), // mkimage -O (default: linux)
+  type: z.string().min(1).optional(), // mkimage -T (default: kernel)
+  comp: z.enum(UIMAGE_COMPRESSIONS).optional(), // mkimage -C (default: none)
+  load: hexAddress.optional(), // mkimage -a (default: 0x41000000)
+  entry: hexAddress.optional(), // mkimage -e (default: 0x41000000)
+  name: z.string().min(1).max(32).optional(), // mkimage -n (default: "Linux <kernelrelease>")
+});
+
+// Inline override value: y/m/n, true (=y), false (is not set), number or string
+const ConfigOverrideValueSchema: z.ZodType<
+  "y" | "m" | "n" | number | string | boolean
+> = z.union([
+  z.literal("y"),
+  z.literal("m"),
+  z.literal("n"),
+  z.number(),
+  z.string(),
+  z.boolean(),
+]);
+
+// Main build options schema.
+//
+// Relative paths: `mergeConfig` and `fragments` are read at the kernel tree
+// root (e.g. `.config` of a previous build); every other path (`patches`,
+// `tarball`, `tarballSignature`, `saveDefconfig`, `outDir`, `cacheDir`,
+// `ccacheDir`) is taken from `workDir` (default: the current directory).
+// Manifests make all of them absolute relative to the manifest first (see
+// resolveManifestPaths in manifest.ts). URLs are kept as is.
+export const BuildOptionsSchema: z.ZodType<{
+  version?: string | undefined;
+  repo?: string | undefined;
+  branch?: string | undefined;
+  label?: string | undefined;
+  source?: (typeof SOURCES)[number] | undefined;
+  tarball?: string | undefined;
+  tarballSha256?: string | undefined;
+  tarballSignature?: string | undefined;
+  patches?: string[] | undefined;
+  arch?: (typeof DEFAULT_CONFIG_ARCHES)[number] | undefined;
+  crossCompile?: string | undefined;
+  toolchain?: (typeof TOOLCHAINS)[number] | undefined;
+  llvmVersion?: string | undefined;
+  llvmIas?: boolean | undefined;
+  ccache?: boolean | undefined;
+  ccacheDir?: string | undefined;
+  mergeConfig?: string | undefined;
+  defconfig?: string | undefined;
+  fragments?: string[] | undefined;
+  profiles?: string[] | undefined;
+  config?: Record<string, ConfigOverrideValue> | undefined;
+  strictConfig?: boolean | undefined;
+  saveDefconfig?: string | undefined;
+  image?: boolean | undefined;
+  initrd?: boolean | undefined;
+  modules?: boolean | undefined;
+  uimage?: UImageOptions | undefined;
+  workDir?: string | undefined;
+  outDir?: string | undefined;
+  cacheDir?: string | undefined;
+  force?: boolean | undefined;
+}> = z
+  .object({
+    version: z.string().min(1).optional(),
+    repo: z.string().min(1).optional(),
+    branch: z.string().min(1).optional(),
+    label: z
+      .string()
+      .regex(LABEL_REGEX, "must only contain letters, digits, '.', '_' or '-'")
+      .optional(),
+    source: z.enum(SOURCES).optional(), // default: git
+    tarball: z.string().min(1).optional(), // path, tarball URL or mirror URL
+    tarballSha256: z
+      .string()
+      .regex(/^[0-9a-fA-F]{64}$/, "expected a sha256 hex digest")
+      .optional(),
+    tarballSignature: z.string().min(1).optional(), // .tar.sign path or URL
+    patches: z.array(z.string().min(1)).optional(), // patch files or series dirs
+    arch: z.enum(DEFAULT_CONFIG_ARCHES).optional(), // target arch (default: this machine's)
+    crossCompile: z
+      .string()
+      .regex(
+        /^[\w./+-]+$/,
+        "expected a toolchain prefix like aarch64-linux-gnu-"
+      )
+      .optional(),
+    toolchain: z.enum(TOOLCHAINS).optional(), // make LLVM=1 for llvm (default: gcc)
+    llvmVersion: z
+      .string()
+      .regex(/^[0-9]+$/, "expected a major version like 18")
+      .optional(), // LLVM=-<version>
+    llvmIas: z.boolean().optional(), // LLVM_IAS=1/0 (default: kbuild's)
+    ccache: z.boolean().optional(), // CC="ccache <compiler>"
+    ccacheDir: z.string().min(1).optional(), // CCACHE_DIR (default: .ccache)
+    mergeConfig: z.string().min(1).optional(),
+    defconfig: z
+      .string()
+      .regex(/defconfig$/, "expected a make target ending in 'defconfig'")
+      .optional(),
+    fragments: z.array(z.string().min(1)).optional(),
+    profiles: z.array(z.string().min(1)).optional(),
+    config: z.record(z.string(), ConfigOverrideValueSchema).optional(),
+    strictConfig: z.boolean().optional(),
+    saveDefconfig: z.string().min(1).optional(),
+    image: z.boolean().optional(),
+    initrd: z.boolean().optional(),
+    modules: z.boolean().optional(),
+    uimage: UImageOptionsSchema.optional(),
+    workDir: z.string().min(1).optional(),
+    outDir: z.string().min(1).optional(), // kbuild O= (default: in-tree)
+    cacheDir: z.string().min(1).optional(), // source cache (default: linux-stable)
+    force: z.boolean().optional(), // rebuild from a clean tree even if unchanged
+  })
+  .superRefine((options, ctx) => {
+    if (options.repo) {
+      if (!options.branch) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["branch"],
+          message: "is required when --repo is provided",
+        });
+      }
+      // The positional version only names the artifact for custom repos.
+      if (options.version && !LABEL_REGEX.test(options.version)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["version"],
+          message: "must only contain letters, digits, '.', '_' or '-'",
+        });
+      }
+    } else {
+      if (options.branch) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["branch"],
+          message: "requires --repo",
+        });
+      }
+      if (!options.version) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["version"],
+          message: "is required",
+        });
+      } else if (!isStableVersion(options.version)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["version"],
+          message: `invalid kernel version '${options.version}', expected X.Y, X.Y.Z, X.Y.y, X.Y-rcN, latest or longterm`,
+        });
+      }
+    }
+
+    for (const key of Object.keys(options.config ?? {})) {
+      if (!/^CONFIG_\w+$/.test(key)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["config", key],
+          message: "expected a CONFIG_* symbol",
+        });
+      }
+    }
+
+    (options.profiles ?? []).forEach((name, index) => {
+      if (!KernelConfigProfiles.get(name)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["profiles", index],
+          message: `unknown profile '${name}' (available: ${KernelConfigProfiles.names().join(
+            ", "
+          )})`,
+        });
+      }
+    });
+
+    if (options.source === "tarball") {
+      if (options.repo) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["repo"],
+          message: "cannot be combined with --source tarball",
+        });
+      }
+      if (options.version && KernelVersion.tryParse(options.version)?.isRc) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["version"],
+          message: "release candidates have no release tarball",
+        });
+      }
+    } else {
+      for (const key of [
+        "tarball",
+        "tarballSha256",
+        "tarballSignature",
+      ] as const) {
+        if (options[key] !== undefined) {
+          ctx.addIssue({
+            code: "custom",
+            path: [key],
+            message: "requires --source tarball",
+          });
+        }
+      }
+    }
+
+    if (options.toolchain !== "llvm") {
+      for (const key of ["llvmVersion", "llvmIas"] as const) {
+        if (options[key] !== undefined) {
+          ctx.addIssue({
+            code: "custom",
+            path: [key],
+            message: "requires --toolchain llvm",
+          });
+        }
+      }
+    }
+
+    if (options.ccacheDir !== undefined && !options.ccache) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ccacheDir"],
+        message: "requires --ccache",
+      });
+    }
+
+    if (options.defconfig && options.mergeConfig) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["mergeConfig"],
+        message: "cannot be combined with --defconfig",
+      });
+    }
+  });
+
+// TypeScript types derived from schemas
+export type ConfigOverrideValue = z.infer<typeof ConfigOverrideValueSchema>;
+export type UImageOptions = z.infer<typeof UImageOptionsSchema>;
+export type Toolchain = (typeof TOOLCHAINS)[number];
+export type BuildOptions = z.infer<typeof BuildOptionsSchema>;
+
+// CLI spelling of each option, used in error reports
+const FLAG_NAMES: Record<string, string> = {
+  version: "<kernel-version>",
+  repo: "--repo",
+  branch: "--branch",
+  label: "--version",
+  source: "--source",
+  tarball: "--tarball",
+  tarballSha256: "--tarball-sha256",
+  tarballSignature: "--tarball-signature",
+  patches: "--patch",
+  arch: "--arch",
+  crossCompile: "--cross-compile",
+  toolchain: "--toolchain",
+  llvmVersion: "--llvm-version",
+  llvmIas: "--llvm-ias",
+  ccache: "--ccache",
+  ccacheDir: "--ccache-dir",
+  mergeConfig: "--merge-config",
+  defconfig: "--defconfig",
+  fragments: "--fragment",
+  profiles: "--profile",
+  strictConfig: "--strict-config",
+  saveDefconfig: "--save-defconfig",
+  outDir: "--out-dir",
+  cacheDir: "--cache-dir",
+  force: "--force",
+  initrd: "--initrd",
+  modules: "--modules",
+  uimage: "--uimage",
+  "uimage.arch": "--uimage-arch",
+  "uimage.os": "--uimage-os",
+  "uimage.type": "--uimage-type",
+  "uimage.comp": "--uimage-comp",
+  "uimage.load": "--uimage-load",
+  "uimage.entry": "--uimage-entry",
+  "uimage.name": "--uimage-name",
+};
+
+/**
+ * Render every validation issue as one line, naming the offending CLI flag
+ */
+export const formatBuildOptionsIssues = (error: z.ZodError): string => {
+  const lines = error.issues.map((issue) => {
+    const path = issue.path.join(".");
+    const name =
+      FLAG_NAMES[path] ??
+      (issue.path[0] === "config" && issue.path.length > 1
+        ? `--set ${String(issue.path[1])}`
+        : FLAG_NAMES[String(issue.path[0])] ?? (path || "options"));
+    return `  - ${name}: ${issue.message}`;
+  });
+  return ["Invalid build options:", ...lines].join("\n");
+};
+
+export const validateBuildOptions = (
+  data: unknown
+): ReturnType<typeof BuildOptionsSchema.safeParse> => {
+  return BuildOptionsSchema.safeParse(data);
+};
+
+/**
+ * Validate build options, throwing a `BuildError` that lists every problem
+ */
+export const parseBuildOptions = (data: unknown): BuildOptions => {
+  const result = BuildOptionsSchema.safeParse(data);
+  if (!result.success) {
+    throw new BuildError(formatBuildOptionsIssues(result.error));
+  }
+  return result.data;
+};
@@ -0,0 +1,129 @@
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import {
+  BuildError,
+  parseBuildOptions,
+  validateBuildOptions,
+} from "./build.ts";
+
+Deno.test("accepts valid stable and custom repo options", () => {
+  assert(validateBuildOptions({ version: "v6.1.12", modules: true }).success);
+  assert(
+    validateBuildOptions({
+      repo: "https://github.com/tsirysndr/linux-orangepi",
+      branch: "orange-pi-6.6-sun60iw2",
+      defconfig: "sun60iw2_defconfig",
+      uimage: { comp: "gzip", load: "0x41000000" },
+    }).success
+  );
+});
+
+Deno.test("rejects invalid uimage parameters", () => {
+  const result = validateBuildOptions({
+    version: "6.1",
+    uimage: { comp: "rar", load: "41000000" },
+  });
+  assert(!result.success);
+  assertEquals(
+    result.error.issues.map((issue) => issue.path.join(".")).sort(),
+    ["uimage.comp", "uimage.load"]
+  );
+});
+
+Deno.test("rejects mutually exclusive and dependent flags", () => {
+  const result = validateBuildOptions({
+    version: "6.1",
+    branch: "main",
+    defconfig: "sun60iw2_defconfig",
+    mergeConfig: ".config",
+  });
+  assert(!result.success);
+  assertEquals(result.error.issues.length, 2);
+});
+
+Deno.test("parseBuildOptions aggregates every issue with flag names", () => {
+  const error = assertThrows(
+    () =>
+      parseBuildOptions({
+        version: "6.x",
+        uimage: { entry: "nowhere" },
+      }),
+    BuildError
+  );
+  assertStringIncludes(
+    error.message,
+    "<kernel-version>: invalid kernel version '6.x'"
+  );
+  assertStringIncludes(error.message, "--uimage-entry: expected a hex address");
+});
+
+Deno.test("rejects unknown config profiles", () => {
+  assert(validateBuildOptions({ version: "6.1", profiles: ["debug"] }).success);
+  const error = assertThrows(
+    () => parseBuildOptions({ version: "6.1", profiles: ["debug", "xen"] }),
+    BuildError
+  );
+  assertStringIncludes(error.message, "--profile: unknown profile 'xen'");
+});
+
+Deno.test("LLVM options require the llvm toolchain", () => {
+  assert(
+    validateBuildOptions({
+      version: "6.1",
+      toolchain: "llvm",
+      llvmVersion: "18",
+      llvmIas: false,
+    }).success
+  );
+  const error = assertThrows(
+    () => parseBuildOptions({ version: "6.1", llvmVersion: "18" }),
+    BuildError
+  );
+  assertStringIncludes(
+    error.message,
+    "--llvm-version: requires --toolchain llvm"
+  );
+});
+
+Deno.test("accepts only architectures with a default config", () => {
+  assert(validateBuildOptions({ version: "6.1", arch: "riscv64" }).success);
+  const error = assertThrows(
+    () => parseBuildOptions({ version: "6.1", arch: "mips" }),
+    BuildError
+  );
+  assertStringIncludes(error.message, "--arch:");
+});
+
+Deno.test("tarball options require --source tarball", () => {
+  assert(
+    validateBuildOptions({
+      version: "6.16.2",
+      source: "tarball",
+      tarballSha256: "a".repeat(64),
+    }).success
+  );
+  const error = assertThrows(
+    () =>
+      parseBuildOptions({
+        repo: "https://example.com/linux.git",
+        branch: "main",
+        source: "tarball",
+      }),
+    BuildError
+  );
+  assertStringIncludes(
+    error.message,
+    "--repo: cannot be combined with --source tarball"
+  );
+  assertStringIncludes(
+    assertThrows(
+      () => parseBuildOptions({ version: "6.16", tarball: "linux.tar.xz" }),
+      BuildError
+    ).message,
+    "--tarball: requires --source tarball"
+  );
+});
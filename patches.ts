@@ -0,0 +1,238 @@
+import { BuildError, fileExists, run, sha256File } from "./exec.ts";
+
+/**
+ * Local patch series applied onto the checked-out tree before it is
+ * configured: quilt-style directories (a `series` file listing the patches in
+ * order), `git format-patch` mboxes, or plain unified diffs.
+ */
+
+/**
+ * A patch of a series
+ */
+export interface PatchFile {
+  /** Path of the patch */
+  path: string;
+  /** Leading path components to strip (quilt's -pN, default 1) */
+  strip: number;
+  /** `git format-patch`/mbox patches are applied with `git am` in git trees */
+  mbox: boolean;
+}
+
+/**
+ * A patch that was applied, as recorded in the build result and patches.json
+ */
+export interface AppliedPatch {
+  path: string;
+  sha256: string;
+}
+
+// Patches picked up from a directory without a series file
+const PATCH_FILE_REGEX = /\.(patch|diff|mbox|eml)$/;
+
+/**
+ * Whether patch content is an mbox (`git format-patch` output starts with
+ * "From <commit> <date>")
+ */
+export function isMbox(content: string): boolean {
+  return /^From \S+ /.test(content.trimStart());
+}
+
+/**
+ * Parse a quilt series file: one patch per line, optionally followed by
+ * `-pN`; blank lines and `#` comments are skipped
+ */
+export function parseSeries(
+  content: string
+): { name: string; strip: number }[] {
+  return content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line !== "")
+    .map((line) => {
+      const [name, ...flags] = line.split(/\s+/);
+      let strip = 1;
+      for (const flag of flags) {
+        const match = flag.match(/^-p(\d+)$/);
+        if (!match) {
+          throw new BuildError(
+            `unsupported option '${flag}' for ${name} in series file`
+          );
+        }
+        strip = Number(match[1]);
+      }
+      return { name, strip };
+    });
+}
+
+/**
+ * Expand `--patch` sources into the patches to apply, in order. A directory
+ * applies the patches its `series` file lists, else every *.patch, *.diff,
+ * *.mbox and *.eml file sorted by name (as `git format-patch` numbers them).
+ */
+export async function resolvePatches(sources: string[]): Promise<PatchFile[]> {
+  const patches: PatchFile[] = [];
+  const add = async (path: string, strip = 1) => {
+    if (!(await fileExists(path))) {
+      throw new BuildError(`patch '${path}' not found`);
+    }
+    patches.push({ path, strip, mbox: isMbox(await Deno.readTextFile(path)) });
+  };
+
+  for (const source of sources) {
+    let info: Deno.FileInfo;
+    try {
+      info = await Deno.stat(source);
+    } catch {
+      throw new BuildError(`patch '${source}' not found`);
+    }
+    if (!info.isDirectory) {
+      await add(source);
+    } else if (await fileExists(`${source}/series`)) {
+      const series = parseSeries(await Deno.readTextFile(`${source}/series`));
+      for (const { name, strip } of series) {
+        await add(`${source}/${name}`, strip);
+      }
+    } else {
+      const names: string[] = [];
+      for await (const entry of Deno.readDir(source)) {
+        if (entry.isFile && PATCH_FILE_REGEX.test(entry.name)) {
+          names.push(entry.name);
+        }
+      }
+      if (names.length === 0) {
+        throw new BuildError(`no patches found in '${source}'`);
+      }
+      for (const name of names.sort()) await add(`${source}/${name}`);
+    }
+  }
+  return patches;
+}
+
+/**
+ * Number (1-based) and header of the hunk of `file` starting at old line
+ * `line`, which is what `git apply` reports when a hunk does not apply
+ */
+export function findHunk(
+  patch: string,
+  file: string,
+  line: number
+): { index: number; header: string } | undefined {
+  let current: string | undefined;
+  let index = 0;
+  for (const text of patch.split("\n")) {
+    const target = text.match(/^\+\+\+ (?:[^/\s]+\/)?(\S+)/);
+    if (target) {
+      current = target[1];
+      index = 0;
+      continue;
+    }
+    const hunk = text.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (hunk && current !== undefined) {
+      index++;
+      // Files are named after -pN stripping, so compare path suffixes
+      const matches = current === file || current.endsWith(`/${file}`);
+      if (matches && Number(hunk[1]) === line) {
+        return { index, header: hunk[0] };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Explain why a patch failed from git's stderr: the file, line and hunk that
+ * did not apply, when git names one
+ */
+export function describePatchFailure(patch: string, stderr: string): string {
+  const failed = stderr.match(/patch failed: (.+):(\d+)/);
+  if (failed) {
+    const [, file, line] = failed;
+    const hunk = findHunk(patch, file, Number(line));
+    return hunk
+      ? `hunk #${hunk.index} (${hunk.header}) of ${file} does not apply`
+      : `${file}:${line} does not apply`;
+  }
+  const reason = stderr
+    .split("\n")
+    .find((text) => /^(error|fatal): /.test(text));
+  return reason?.replace(/^(error|fatal): /, "") ?? "does not apply";
+}
+
+async function git(
+  args: string[],
+  cwd: string
+): Promise<{ success: boolean; stderr: string }> {
+  const { success, stderr } = await new Deno.Command("git", {
+    args,
+    cwd,
+    // A tarball tree inside another repository (e.g. the working directory)
+    // must not be taken for a subdirectory of it: `git apply` would skip
+    // every path outside the subdirectory.
+    env: { GIT_CEILING_DIRECTORIES: cwd.slice(0, cwd.lastIndexOf("/")) },
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+  return { success, stderr: new TextDecoder().decode(stderr) };
+}
+
+/**
+ * Apply patches onto a kernel tree in order. In a git checkout HEAD is
+ * detached first and every patch becomes a commit (`git am` for mboxes,
+ * `git apply --index` and a commit named after the file for plain diffs), so
+ * checking a ref out again drops them. Other trees (extracted tarballs) are
+ * patched with `git apply`. The first patch that does not apply aborts with
+ * the patch and hunk that failed; the tree is left as before that patch.
+ */
+export async function applyPatches(
+  srcDir: string,
+  patches: PatchFile[]
+): Promise<AppliedPatch[]> {
+  const isGit = await fileExists(`${srcDir}/.git`);
+  // The committer of the patch commits; mboxes keep their author
+  const identity = [
+    "-c",
+    "user.name=vmlinux-builder",
+    "-c",
+    "user.email=vmlinux-builder@localhost",
+  ];
+  if (isGit) await run(["git", "checkout", "-q", "--detach"], { cwd: srcDir });
+
+  const applied: AppliedPatch[] = [];
+  for (const patch of patches) {
+    const name = patch.path.split("/").pop() ?? patch.path;
+    console.log(`Applying ${patch.path}`);
+    let result;
+    if (isGit && patch.mbox) {
+      result = await git(
+        [...identity, "am", `-p${patch.strip}`, patch.path],
+        srcDir
+      );
+      if (!result.success) await git(["am", "--abort"], srcDir);
+    } else {
+      result = await git(
+        [
+          "apply",
+          ...(isGit ? ["--index"] : []),
+          `-p${patch.strip}`,
+          patch.path,
+        ],
+        srcDir
+      );
+      if (result.success && isGit) {
+        result = await git(
+          [...identity, "commit", "-q", "--no-verify", "-m", name],
+          srcDir
+        );
+      }
+    }
+    if (!result.success) {
+      const reason = describePatchFailure(
+        await Deno.readTextFile(patch.path),
+        result.stderr
+      );
+      throw new BuildError(`patch ${patch.path} failed: ${reason}`);
+    }
+    applied.push({ path: patch.path, sha256: await sha256File(patch.path) });
+  }
+  return applied;
+}
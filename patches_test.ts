@@ -0,0 +1,134 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import {
+  applyPatches,
+  BuildError,
+  describePatchFailure,
+  parseSeries,
+  resolvePatches,
+} from "./build.ts";
+
+const DIFF = `--- a/drivers/virtio/virtio_ring.c
++++ b/drivers/virtio/virtio_ring.c
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+@@ -10,3 +10,3 @@
+ ten
+-eleven
++ELEVEN
+ twelve
+`;
+
+Deno.test("parseSeries reads quilt series files", () => {
+  assertEquals(
+    parseSeries("# virtio fixes\n0001-ring.patch\n\n0002-vsock.patch -p0\n"),
+    [
+      { name: "0001-ring.patch", strip: 1 },
+      { name: "0002-vsock.patch", strip: 0 },
+    ]
+  );
+  assertThrows(() => parseSeries("0001.patch -R\n"), BuildError, "'-R'");
+});
+
+Deno.test("describePatchFailure names the hunk that failed", () => {
+  assertEquals(
+    describePatchFailure(
+      DIFF,
+      "error: patch failed: drivers/virtio/virtio_ring.c:10\n" +
+        "error: drivers/virtio/virtio_ring.c: patch does not apply\n"
+    ),
+    "hunk #2 (@@ -10,3 +10,3 @@) of drivers/virtio/virtio_ring.c does not apply"
+  );
+  assertEquals(
+    describePatchFailure(DIFF, "error: net/vsock.c: No such file or directory"),
+    "net/vsock.c: No such file or directory"
+  );
+});
+
+Deno.test("applyPatches commits a series and reports failures", async () => {
+  const dir = await Deno.makeTempDir();
+  const tree = `${dir}/linux`;
+  const git = async (...args: string[]) => {
+    const { code, stdout } = await new Deno.Command("git", {
+      args: [
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        ...args,
+      ],
+      cwd: tree,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    assertEquals(code, 0);
+    return new TextDecoder().decode(stdout).trim();
+  };
+  try {
+    await Deno.mkdir(`${tree}/drivers/virtio`, { recursive: true });
+    const ring = `${tree}/drivers/virtio/virtio_ring.c`;
+    await Deno.writeTextFile(
+      ring,
+      "one\ntwo\nthree\n4\n5\n6\n7\n8\n9\nten\neleven\ntwelve\n"
+    );
+    await git("init", "-q", "-b", "linux-6.1.y");
+    await git("add", ".");
+    await git("commit", "-q", "-m", "6.1");
+
+    // An mbox from format-patch, then a plain diff from a series directory
+    await Deno.writeTextFile(`${tree}/Makefile`, "VERSION = 6\n");
+    await git("add", "Makefile");
+    await git("commit", "-q", "-m", "add Makefile");
+    await Deno.writeTextFile(
+      `${dir}/0001-makefile.patch`,
+      await git("format-patch", "-1", "--stdout")
+    );
+    await git("reset", "-q", "--hard", "HEAD~1");
+    await Deno.mkdir(`${dir}/series`);
+    await Deno.writeTextFile(`${dir}/series/ring.diff`, DIFF);
+    await Deno.writeTextFile(`${dir}/series/series`, "ring.diff\n");
+
+    const patches = await resolvePatches([
+      `${dir}/0001-makefile.patch`,
+      `${dir}/series`,
+    ]);
+    assertEquals(
+      patches.map(({ mbox }) => mbox),
+      [true, false]
+    );
+    const applied = await applyPatches(tree, patches);
+    assertEquals(
+      applied.map(({ path }) => path),
+      [`${dir}/0001-makefile.patch`, `${dir}/series/ring.diff`]
+    );
+    assertStringIncludes(await Deno.readTextFile(ring), "ELEVEN");
+    assertEquals(
+      await git("log", "--format=%s", "-2"),
+      "ring.diff\nadd Makefile"
+    );
+    // The branch itself is untouched
+    assertEquals(await git("log", "--format=%s", "-1", "linux-6.1.y"), "6.1");
+
+    // Applying the diff again fails on its first hunk
+    await assertRejects(
+      () => applyPatches(tree, [patches[1]]),
+      BuildError,
+      "ring.diff failed: hunk #1 (@@ -1,3 +1,3 @@) of drivers/virtio/virtio_ring.c does not apply"
+    );
+
+    // Trees outside git are patched in place
+    await git("checkout", "-q", "-f", "linux-6.1.y");
+    await Deno.remove(`${tree}/.git`, { recursive: true });
+    await applyPatches(tree, [patches[1]]);
+    assertStringIncludes(await Deno.readTextFile(ring), "TWO");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,155 @@
+// Built-in config profiles, each a fragment layered over default-config.ts.
+// Keep them short: only the symbols that make the profile differ from the base.
+// Arch-specific symbols go in `archFragments` (see arch-configs.ts).
+
+import { kvmGuest } from "./arch-configs.ts";
+
+export const firecracker = {
+  description:
+    "Firecracker microVM guest (virtio-mmio devices, serial console)",
+  fragment: `CONFIG_VIRTIO_MMIO=y
+CONFIG_VIRTIO_MMIO_CMDLINE_DEVICES=y
+CONFIG_VIRTIO_BLK=y
+CONFIG_VIRTIO_NET=y
+CONFIG_VSOCKETS=y
+CONFIG_VIRTIO_VSOCKETS=y
+CONFIG_SERIAL_8250=y
+CONFIG_SERIAL_8250_CONSOLE=y
+CONFIG_HW_RANDOM_VIRTIO=y
+# CONFIG_MODULES is not set
+`,
+  archFragments: kvmGuest,
+};
+
+export const cloudHypervisor = {
+  description:
+    "Cloud Hypervisor guest (virtio-pci, virtio-fs, pmem, memory hotplug)",
+  fragment: `CONFIG_PCI=y
+CONFIG_PCI_MSI=y
+CONFIG_ACPI=y
+CONFIG_VIRTIO_PCI=y
+CONFIG_VIRTIO_BLK=y
+CONFIG_VIRTIO_NET=y
+CONFIG_VIRTIO_CONSOLE=y
+CONFIG_VIRTIO_BALLOON=y
+CONFIG_VIRTIO_MEM=y
+CONFIG_VIRTIO_IOMMU=y
+CONFIG_VIRTIO_FS=y
+CONFIG_FUSE_FS=y
+CONFIG_LIBNVDIMM=y
+CONFIG_VIRTIO_PMEM=y
+CONFIG_MEMORY_HOTPLUG=y
+CONFIG_MEMORY_HOTREMOVE=y
+CONFIG_HW_RANDOM_VIRTIO=y
+CONFIG_VSOCKETS=y
+CONFIG_VIRTIO_VSOCKETS=y
+`,
+  archFragments: kvmGuest,
+};
+
+export const qemuVirt = {
+  description: "QEMU virt/q35 guest (virtio-pci, virtio-scsi, 9p, fw_cfg)",
+  fragment: `CONFIG_PCI=y
+CONFIG_VIRTIO_PCI=y
+CONFIG_VIRTIO_BLK=y
+CONFIG_VIRTIO_NET=y
+CONFIG_VIRTIO_CONSOLE=y
+CONFIG_VIRTIO_BALLOON=y
+CONFIG_SCSI=y
+CONFIG_SCSI_VIRTIO=y
+CONFIG_NET_9P=y
+CONFIG_NET_9P_VIRTIO=y
+CONFIG_9P_FS=y
+CONFIG_9P_FS_POSIX_ACL=y
+CONFIG_FW_CFG_SYSFS=y
+CONFIG_SERIAL_8250=y
+CONFIG_SERIAL_8250_CONSOLE=y
+CONFIG_HW_RANDOM_VIRTIO=y
+`,
+  archFragments: kvmGuest,
+};
+
+export const minimal = {
+  description:
+    "Smallest bootable guest: no modules, size-optimized, few drivers",
+  fragment: `CONFIG_CC_OPTIMIZE_FOR_SIZE=y
+# CONFIG_CC_OPTIMIZE_FOR_PERFORMANCE is not set
+# CONFIG_MODULES is not set
+# CONFIG_IKCONFIG is not set
+# CONFIG_KALLSYMS_ALL is not set
+# CONFIG_DEBUG_INFO is not set
+# CONFIG_USB_SUPPORT is not set
+# CONFIG_SOUND is not set
+# CONFIG_DRM is not set
+# CONFIG_WIRELESS is not set
+# CONFIG_WLAN is not set
+# CONFIG_BT is not set
+# CONFIG_INPUT_MOUSE is not set
+# CONFIG_INPUT_JOYSTICK is not set
+# CONFIG_PROFILING is not set
+`,
+};
+
+export const debug = {
+  description:
+    "Debug build: DWARF, gdb scripts, lockdep, tracing, /proc/config.gz",
+  fragment: `CONFIG_DEBUG_KERNEL=y
+CONFIG_DEBUG_INFO=y
+CONFIG_DEBUG_INFO_DWARF5=y
+# CONFIG_DEBUG_INFO_NONE is not set
+CONFIG_GDB_SCRIPTS=y
+CONFIG_FRAME_POINTER=y
+CONFIG_KALLSYMS_ALL=y
+CONFIG_MAGIC_SYSRQ=y
+CONFIG_DYNAMIC_DEBUG=y
+CONFIG_PROVE_LOCKING=y
+CONFIG_DEBUG_ATOMIC_SLEEP=y
+CONFIG_FTRACE=y
+CONFIG_FUNCTION_TRACER=y
+CONFIG_IKCONFIG=y
+CONFIG_IKCONFIG_PROC=y
+`,
+};
+
+export const containerHost = {
+  description:
+    "Container host: namespaces, cgroups v2, overlayfs, bridge/veth, netfilter NAT",
+  fragment: `CONFIG_NAMESPACES=y
+CONFIG_UTS_NS=y
+CONFIG_IPC_NS=y
+CONFIG_USER_NS=y
+CONFIG_PID_NS=y
+CONFIG_NET_NS=y
+CONFIG_CGROUPS=y
+CONFIG_MEMCG=y
+CONFIG_BLK_CGROUP=y
+CONFIG_CGROUP_SCHED=y
+CONFIG_CGROUP_PIDS=y
+CONFIG_CGROUP_FREEZER=y
+CONFIG_CGROUP_DEVICE=y
+CONFIG_CGROUP_CPUACCT=y
+CONFIG_CGROUP_HUGETLB=y
+CONFIG_CGROUP_BPF=y
+CONFIG_CPUSETS=y
+CONFIG_BPF_SYSCALL=y
+CONFIG_SECCOMP=y
+CONFIG_POSIX_MQUEUE=y
+CONFIG_KEYS=y
+CONFIG_OVERLAY_FS=y
+CONFIG_FUSE_FS=y
+CONFIG_VETH=y
+CONFIG_BRIDGE=y
+CONFIG_BRIDGE_NETFILTER=y
+CONFIG_VXLAN=y
+CONFIG_MACVLAN=y
+CONFIG_IPVLAN=y
+CONFIG_DUMMY=y
+CONFIG_NETFILTER_XT_MATCH_ADDRTYPE=y
+CONFIG_NETFILTER_XT_MATCH_CONNTRACK=y
+CONFIG_NETFILTER_XT_MARK=y
+CONFIG_NF_NAT=y
+CONFIG_IP_NF_NAT=y
+CONFIG_IP_NF_FILTER=y
+CONFIG_IP_NF_TARGET_MASQUERADE=y
+`,
+};
@@ -0,0 +1,158 @@
+import { BuildError, capture } from "./exec.ts";
+import { KERNEL_ORG_URL, tarballDirUrl } from "./tarball.ts";
+import { KernelVersion } from "./version.ts";
+
+/**
+ * Version aliases resolved against the tags of the stable repository (or the
+ * tarball directories of kernel.org), so artifacts are named after the
+ * release that was actually built (`6.1.y` -> v6.1.155 ->
+ * vmlinux-6.1.155.x86_64).
+ */
+
+/**
+ * Longterm series maintained on kernel.org, as listed on
+ * https://www.kernel.org/category/releases.html. `longterm` builds the newest
+ * of them the repository has tags for, so a series added there is picked up
+ * once it is appended here; end-of-life series can stay.
+ */
+export const LONGTERM_SERIES = ["5.10", "5.15", "6.1", "6.6", "6.12", "6.18"];
+
+/**
+ * Whether a version names a series rather than a release: `latest`,
+ * `longterm`, `6.1` or `6.1.y`
+ */
+export function isVersionAlias(version: string): boolean {
+  if (version === "latest" || version === "longterm") return true;
+  const parsed = KernelVersion.tryParse(version);
+  return (
+    parsed !== undefined &&
+    parsed.patch === undefined &&
+    !parsed.isRc &&
+    parsed.suffix === undefined
+  );
+}
+
+/**
+ * Release versions ("6.1.155", "6.17") of the tags in `git ls-remote --tags`
+ * output; -rc tags are skipped
+ */
+export function parseRemoteTags(output: string): string[] {
+  const versions = new Set<string>();
+  for (const line of output.split("\n")) {
+    const match = line.match(/\trefs\/tags\/v([0-9]+\.[0-9]+(?:\.[0-9]+)?)$/);
+    if (match) versions.add(match[1]);
+  }
+  return [...versions];
+}
+
+/**
+ * Release versions of the tarballs (`linux-6.1.155.tar.xz`) linked from a
+ * kernel.org-style directory index
+ */
+export function parseTarballIndex(html: string): string[] {
+  const versions = new Set<string>();
+  for (const match of html.matchAll(
+    /href="linux-([0-9]+\.[0-9]+(?:\.[0-9]+)?)\.tar\.xz"/g
+  )) {
+    versions.add(match[1]);
+  }
+  return [...versions];
+}
+
+/**
+ * The release an alias resolves to among the given versions: the newest
+ * release overall (`latest`), of the newest longterm series (`longterm`) or
+ * of the series (`6.1`, `6.1.y`)
+ */
+export function pickRelease(
+  versions: string[],
+  alias: string
+): string | undefined {
+  let candidates = versions.map((v) => KernelVersion.parse(v));
+  if (alias === "longterm") {
+    const series = LONGTERM_SERIES.map((s) => KernelVersion.parse(s))
+      .filter((s) => candidates.some((v) => v.sameSeries(s)))
+      .sort(KernelVersion.compare)
+      .pop();
+    candidates = candidates.filter((v) => series && v.sameSeries(series));
+  } else if (alias !== "latest") {
+    const series = KernelVersion.parse(alias);
+    candidates = candidates.filter((v) => v.sameSeries(series));
+  }
+  return candidates.sort(KernelVersion.compare).pop()?.format();
+}
+
+/**
+ * Resolve a version alias to a release with `git ls-remote` on the repository
+ * (a URL or a local repository path)
+ *
+ * @returns the release version, without the leading "v" (e.g. "6.1.155")
+ */
+export async function resolveVersionAlias(
+  repo: string,
+  alias: string
+): Promise<string> {
+  const output = await capture(["git", "ls-remote", "--tags", "--refs", repo]);
+  if (!output) {
+    throw new BuildError(`failed to list the tags of ${repo}`);
+  }
+  const release = pickRelease(parseRemoteTags(output), alias);
+  if (!release) {
+    throw new BuildError(`no release of ${repo} matches '${alias}'`);
+  }
+  return release;
+}
+
+async function loadIndex(url: string): Promise<string> {
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    throw new BuildError(
+      `failed to list ${url} (${resp.status} ${resp.statusText})`
+    );
+  }
+  return await resp.text();
+}
+
+/**
+ * Resolve a version alias to a release from the tarball directories (v6.x/,
+ * v5.x/, ...) of kernel.org or a mirror laid out like it, for tarball builds
+ * that must not depend on git
+ *
+ * @param mirror mirror base URL (default: kernel.org); a single tarball
+ *   cannot resolve an alias
+ * @returns the release version (e.g. "6.1.155")
+ */
+export async function resolveTarballAlias(
+  alias: string,
+  mirror: string = KERNEL_ORG_URL
+): Promise<string> {
+  if (!/^https?:\/\//i.test(mirror) || /\.tar(\.\w+)?$/.test(mirror)) {
+    throw new BuildError(
+      `'${alias}' cannot be resolved from the tarball ${mirror}; pass its release version (X.Y or X.Y.Z)`
+    );
+  }
+
+  let majors: string[];
+  if (alias === "latest") {
+    const index = await loadIndex(`${mirror.replace(/\/+$/, "")}/`);
+    const listed = [...index.matchAll(/href="v([0-9]+)\.x\/"/g)].map((m) =>
+      Number(m[1])
+    );
+    majors = listed.length > 0 ? [String(Math.max(...listed))] : [];
+  } else if (alias === "longterm") {
+    majors = [...new Set(LONGTERM_SERIES.map((s) => s.split(".")[0]))];
+  } else {
+    majors = [KernelVersion.parse(alias).major.toString()];
+  }
+
+  const versions: string[] = [];
+  for (const major of majors) {
+    const dir = tarballDirUrl(major, mirror);
+    versions.push(...parseTarballIndex(await loadIndex(`${dir}/`)));
+  }
+  const release = pickRelease(versions, alias);
+  if (!release) {
+    throw new BuildError(`no release tarball of ${mirror} matches '${alias}'`);
+  }
+  return release;
+}
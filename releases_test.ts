@@ -0,0 +1,158 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  BuildError,
+  isVersionAlias,
+  KernelVersion,
+  LONGTERM_SERIES,
+  parseRemoteTags,
+  parseTarballIndex,
+  pickRelease,
+  resolveTarballAlias,
+  resolveVersionAlias,
+} from "./build.ts";
+
+const VERSIONS = ["6.1", "6.1.9", "6.1.12", "6.6.100", "6.12.40", "6.17"];
+
+Deno.test("isVersionAlias tells series from releases", () => {
+  for (const alias of ["latest", "longterm", "6.1", "v6.1", "6.1.y"]) {
+    assertEquals(isVersionAlias(alias), true, alias);
+  }
+  for (const version of ["6.1.12", "v6.1.12", "6.17-rc3"]) {
+    assertEquals(isVersionAlias(version), false, version);
+  }
+});
+
+Deno.test("LONGTERM_SERIES lists release series, oldest first", () => {
+  const series = LONGTERM_SERIES.map((s) => KernelVersion.parse(s));
+  assertEquals(
+    series.map((s) => s.format()),
+    LONGTERM_SERIES
+  );
+  assertEquals(
+    [...series].sort(KernelVersion.compare).map((s) => s.series),
+    LONGTERM_SERIES
+  );
+  // The newest longterm series wins over newer stable ones
+  const newest = LONGTERM_SERIES[LONGTERM_SERIES.length - 1];
+  assertEquals(
+    pickRelease([`${newest}.3`, `${newest}.12`, "9.9.1"], "longterm"),
+    `${newest}.12`
+  );
+});
+
+Deno.test("parseRemoteTags keeps release tags", () => {
+  const output = [
+    "aaa\trefs/tags/v6.1",
+    "bbb\trefs/tags/v6.1.12",
+    "ccc\trefs/tags/v6.2-rc1",
+    "ddd\trefs/tags/v2.6.11-tree",
+  ].join("\n");
+  assertEquals(parseRemoteTags(output), ["6.1", "6.1.12"]);
+});
+
+Deno.test("pickRelease resolves latest, longterm and series", () => {
+  assertEquals(pickRelease(VERSIONS, "latest"), "6.17");
+  assertEquals(pickRelease(VERSIONS, "longterm"), "6.12.40");
+  assertEquals(pickRelease(VERSIONS, "6.1.y"), "6.1.12");
+  assertEquals(pickRelease(VERSIONS, "6.1"), "6.1.12");
+  assertEquals(pickRelease(VERSIONS, "v6.1"), "6.1.12");
+  assertEquals(pickRelease(["6.17"], "6.17.y"), "6.17");
+  assertEquals(pickRelease(VERSIONS, "5.15"), undefined);
+});
+
+Deno.test("resolveVersionAlias lists the tags of a repository", async () => {
+  const dir = await Deno.makeTempDir();
+  const git = async (...args: string[]) => {
+    const { code } = await new Deno.Command("git", {
+      args: [
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        ...args,
+      ],
+      cwd: dir,
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    assertEquals(code, 0);
+  };
+  try {
+    await git("init", "-q");
+    await git("commit", "-q", "--allow-empty", "-m", "6.1");
+    for (const tag of ["v6.1", "v6.1.2", "v6.1.10", "v6.2-rc1"]) {
+      await git("tag", tag);
+    }
+    assertEquals(await resolveVersionAlias(dir, "6.1.y"), "6.1.10");
+    assertEquals(await resolveVersionAlias(dir, "6.1"), "6.1.10");
+    assertEquals(await resolveVersionAlias(dir, "latest"), "6.1.10");
+    await assertRejects(
+      () => resolveVersionAlias(dir, "6.6"),
+      BuildError,
+      "matches '6.6'"
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("resolveTarballAlias lists a mirror's tarballs", async () => {
+  const link = (name: string) => `<a href="${name}">${name}</a>\n`;
+  const pages: Record<string, string> = {
+    "/pub/": ["v5.x/", "v6.x/", "testing/"].map(link).join(""),
+    "/pub/v5.x/": ["linux-5.15.tar.xz", "linux-5.15.190.tar.xz"]
+      .map(link)
+      .join(""),
+    "/pub/v6.x/": [
+      "linux-6.1.tar.xz",
+      "linux-6.1.155.tar.xz",
+      "linux-6.1.155.tar.sign",
+      "linux-6.12.40.tar.xz",
+      "linux-6.17.tar.gz",
+      "linux-6.17.tar.xz",
+      "patch-6.17.1.xz",
+    ]
+      .map(link)
+      .join(""),
+  };
+  assertEquals(parseTarballIndex(pages["/pub/v6.x/"]), [
+    "6.1",
+    "6.1.155",
+    "6.12.40",
+    "6.17",
+  ]);
+
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (req) => {
+      const page = pages[new URL(req.url).pathname];
+      return page
+        ? new Response(page)
+        : new Response("not found", { status: 404 });
+    }
+  );
+  const mirror = `http://127.0.0.1:${server.addr.port}/pub`;
+  try {
+    assertEquals(await resolveTarballAlias("6.1.y", mirror), "6.1.155");
+    assertEquals(await resolveTarballAlias("6.1", mirror), "6.1.155");
+    assertEquals(await resolveTarballAlias("latest", mirror), "6.17");
+    assertEquals(await resolveTarballAlias("longterm", mirror), "6.12.40");
+    await assertRejects(
+      () => resolveTarballAlias("6.6.y", mirror),
+      BuildError,
+      "matches '6.6.y'"
+    );
+    await assertRejects(
+      () => resolveTarballAlias("4.19.y", mirror),
+      BuildError,
+      "failed to list"
+    );
+    await assertRejects(
+      () => resolveTarballAlias("6.1.y", "./linux-6.1.tar.xz"),
+      BuildError,
+      "pass its release version"
+    );
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,258 @@
+import z from "@zod/zod";
+import { BuildError, capture, fileExists, run } from "./exec.ts";
+
+/**
+ * Persistent kernel source cache: one bare mirror per repository and one git
+ * worktree per ref, so building several refs back to back neither re-clones
+ * nor force-checks-out over the same tree. Layout under the cache root:
+ *
+ * ```
+ * mirrors/<repo>.git          bare mirror (shallow fetches of each ref)
+ * worktrees/<repo>/<ref>/     checked-out tree of a ref
+ * cache.json                  repo, ref and last use of every worktree
+ * ```
+ */
+
+/**
+ * A worktree of the source cache
+ */
+export interface SourceCacheEntry {
+  repo: string;
+  ref: string;
+  path: string;
+  /** ISO timestamp of the last build that checked it out */
+  lastUsed: string;
+  /** Checked-out commit */
+  head?: string | undefined;
+}
+
+const CacheIndexSchema: z.ZodType<{
+  worktrees: Record<string, { repo: string; ref: string; lastUsed: string }>;
+}> = z.object({
+  worktrees: z.record(
+    z.string(),
+    z.object({ repo: z.string(), ref: z.string(), lastUsed: z.string() })
+  ),
+});
+
+type CacheIndex = z.infer<typeof CacheIndexSchema>;
+
+/**
+ * Cache root: $VMLINUX_BUILDER_CACHE_DIR, else
+ * $XDG_CACHE_HOME/vmlinux-builder (~/.cache/vmlinux-builder)
+ */
+export function defaultCacheDir(): string {
+  const explicit = Deno.env.get("VMLINUX_BUILDER_CACHE_DIR");
+  if (explicit) return explicit;
+  const xdg = Deno.env.get("XDG_CACHE_HOME");
+  return `${xdg ?? `${Deno.env.get("HOME") ?? "."}/.cache`}/vmlinux-builder`;
+}
+
+/**
+ * Filesystem-safe name of a repository URL or ref
+ * ("git://git.kernel.org/.../linux-stable.git" -> "git.kernel.org-...-linux-stable")
+ */
+export function cacheSlug(text: string): string {
+  return text
+    .replace(/^[a-z+]+:\/\//i, "")
+    .replace(/\.git$/, "")
+    .replace(/[^A-Za-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Bare mirror of a repository
+ */
+export function mirrorPath(cacheDir: string, repo: string): string {
+  return `${cacheDir}/mirrors/${cacheSlug(repo)}.git`;
+}
+
+/**
+ * Worktree of a ref
+ */
+export function worktreePath(
+  cacheDir: string,
+  repo: string,
+  ref: string
+): string {
+  return `${cacheDir}/worktrees/${cacheSlug(repo)}/${cacheSlug(ref)}`;
+}
+
+async function readIndex(cacheDir: string): Promise<CacheIndex> {
+  const path = `${cacheDir}/cache.json`;
+  if (!(await fileExists(path))) return { worktrees: {} };
+  const result = CacheIndexSchema.safeParse(
+    JSON.parse(await Deno.readTextFile(path))
+  );
+  if (!result.success) {
+    throw new BuildError(`invalid source cache index ${path}`);
+  }
+  return result.data;
+}
+
+async function writeIndex(cacheDir: string, index: CacheIndex): Promise<void> {
+  await Deno.writeTextFile(
+    `${cacheDir}/cache.json`,
+    JSON.stringify(index, null, 2)
+  );
+}
+
+/**
+ * Fetch a ref into the repository's mirror and check it out in the ref's
+ * worktree, creating both on first use. An existing worktree keeps its build
+ * objects; it only moves when the ref did upstream.
+ *
+ * @returns the worktree path
+ */
+export async function checkoutWorktree(
+  cacheDir: string,
+  repo: string,
+  ref: string
+): Promise<string> {
+  const mirror = mirrorPath(cacheDir, repo);
+  const worktree = worktreePath(cacheDir, repo, ref);
+
+  if (!(await fileExists(mirror))) {
+    await Deno.mkdir(`${cacheDir}/mirrors`, { recursive: true });
+    await run(["git", "init", "--bare", mirror]);
+    await run(["git", "-C", mirror, "remote", "add", "origin", repo]);
+  }
+
+  // Branches and tags alike land in refs/cache/<ref>; a tag may be an
+  // annotated tag object, so peel it to the commit when checking out.
+  const cacheRef = `refs/cache/${ref}`;
+  try {
+    await run([
+      "git",
+      "-C",
+      mirror,
+      "fetch",
+      "--depth=1",
+      "origin",
+      `+${ref}:${cacheRef}`,
+    ]);
+  } catch {
+    await run(["git", "-C", mirror, "fetch", "origin", `+${ref}:${cacheRef}`]);
+  }
+  const commit = `${cacheRef}^{commit}`;
+
+  if (!(await fileExists(worktree))) {
+    await Deno.mkdir(`${cacheDir}/worktrees/${cacheSlug(repo)}`, {
+      recursive: true,
+    });
+    // A worktree deleted by hand leaves a stale entry that blocks `add`.
+    await run(["git", "-C", mirror, "worktree", "prune"]);
+    await run([
+      "git",
+      "-C",
+      mirror,
+      "worktree",
+      "add",
+      "--detach",
+      "--force",
+      worktree,
+      commit,
+    ]);
+  } else {
+    await run(["git", "-C", worktree, "checkout", "--detach", "-f", commit]);
+  }
+
+  const index = await readIndex(cacheDir);
+  index.worktrees[worktree] = {
+    repo,
+    ref,
+    lastUsed: new Date().toISOString(),
+  };
+  await writeIndex(cacheDir, index);
+  return worktree;
+}
+
+/**
+ * Every worktree of the cache, most recently used first
+ */
+export async function listCache(cacheDir: string): Promise<SourceCacheEntry[]> {
+  const index = await readIndex(cacheDir);
+  const entries: SourceCacheEntry[] = [];
+  for (const [path, entry] of Object.entries(index.worktrees)) {
+    if (!(await fileExists(path))) continue;
+    const head = await capture(["git", "-C", path, "rev-parse", "HEAD"]);
+    entries.push({ ...entry, path, head: head || undefined });
+  }
+  return entries.sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+}
+
+/**
+ * Which worktrees `pruneCache` removes: the given refs, those unused for
+ * `olderThanDays`, or all of them
+ */
+export interface PruneOptions {
+  refs?: string[];
+  olderThanDays?: number;
+  all?: boolean;
+  /** Reference time for `olderThanDays` (default: now) */
+  now?: Date;
+}
+
+/**
+ * Select the cache entries a prune removes
+ */
+export function selectPruned(
+  entries: SourceCacheEntry[],
+  options: PruneOptions
+): SourceCacheEntry[] {
+  const now = (options.now ?? new Date()).getTime();
+  return entries.filter((entry) => {
+    if (options.all) return true;
+    if (options.refs?.includes(entry.ref)) return true;
+    if (options.olderThanDays !== undefined) {
+      const age = now - new Date(entry.lastUsed).getTime();
+      return age > options.olderThanDays * 24 * 60 * 60 * 1000;
+    }
+    return false;
+  });
+}
+
+/**
+ * Remove worktrees from the cache (the mirrors are kept)
+ *
+ * @returns the removed entries
+ */
+export async function pruneCache(
+  cacheDir: string,
+  options: PruneOptions
+): Promise<SourceCacheEntry[]> {
+  if (!(await fileExists(cacheDir))) return [];
+  const removed = selectPruned(await listCache(cacheDir), options);
+  const index = await readIndex(cacheDir);
+  for (const entry of removed) {
+    await run([
+      "git",
+      "-C",
+      mirrorPath(cacheDir, entry.repo),
+      "worktree",
+      "remove",
+      "--force",
+      entry.path,
+    ]);
+    delete index.worktrees[entry.path];
+  }
+  // Forget worktrees that were deleted by hand
+  for (const path of Object.keys(index.worktrees)) {
+    if (!(await fileExists(path))) delete index.worktrees[path];
+  }
+  await writeIndex(cacheDir, index);
+  return removed;
+}
+
+/**
+ * One line per worktree: ref, short commit, last use and path
+ */
+export function formatCacheEntries(entries: SourceCacheEntry[]): string {
+  if (entries.length === 0) return "Source cache is empty.";
+  return entries
+    .map(
+      ({ ref, head, lastUsed, path }) =>
+        `${ref}  ${head?.slice(0, 12) ?? "-"}  ${lastUsed}  ${path}`
+    )
+    .join("\n");
+}
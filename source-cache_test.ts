@@ -0,0 +1,100 @@
+import { assertEquals } from "@std/assert";
+import {
+  cacheSlug,
+  checkoutWorktree,
+  listCache,
+  pruneCache,
+  selectPruned,
+  type SourceCacheEntry,
+  worktreePath,
+} from "./build.ts";
+
+const REPO =
+  "git://git.kernel.org/pub/scm/linux/kernel/git/stable/linux-stable.git";
+
+Deno.test("worktree paths are named after the repo and ref", () => {
+  assertEquals(
+    cacheSlug(REPO),
+    "git.kernel.org-pub-scm-linux-kernel-git-stable-linux-stable"
+  );
+  assertEquals(
+    worktreePath("/cache", "https://github.com/o/linux", "feature/x"),
+    "/cache/worktrees/github.com-o-linux/feature-x"
+  );
+});
+
+Deno.test("selectPruned picks refs, stale worktrees or everything", () => {
+  const entry = (ref: string, lastUsed: string): SourceCacheEntry => ({
+    repo: REPO,
+    ref,
+    path: `/cache/${ref}`,
+    lastUsed,
+  });
+  const entries = [
+    entry("linux-6.1.y", "2026-01-01T00:00:00.000Z"),
+    entry("linux-6.6.y", "2026-01-30T00:00:00.000Z"),
+  ];
+  const now = new Date("2026-02-01T00:00:00.000Z");
+  const refs = (options: Parameters<typeof selectPruned>[1]) =>
+    selectPruned(entries, { now, ...options }).map(({ ref }) => ref);
+
+  assertEquals(refs({}), []);
+  assertEquals(refs({ refs: ["linux-6.6.y"] }), ["linux-6.6.y"]);
+  assertEquals(refs({ olderThanDays: 7 }), ["linux-6.1.y"]);
+  assertEquals(refs({ all: true }), ["linux-6.1.y", "linux-6.6.y"]);
+});
+
+Deno.test("checkoutWorktree keeps one worktree per ref", async () => {
+  const dir = await Deno.makeTempDir();
+  const git = async (...args: string[]) => {
+    const { code } = await new Deno.Command("git", {
+      args: [
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        ...args,
+      ],
+      cwd: `${dir}/upstream`,
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    assertEquals(code, 0);
+  };
+  try {
+    await Deno.mkdir(`${dir}/upstream`);
+    await git("init", "-q", "-b", "linux-6.1.y");
+    await Deno.writeTextFile(`${dir}/upstream/Makefile`, "VERSION = 6\n");
+    await git("add", "Makefile");
+    await git("commit", "-q", "-m", "6.1");
+    await git("tag", "-a", "-m", "v6.1.1", "v6.1.1");
+
+    const repo = `file://${dir}/upstream`;
+    const cacheDir = `${dir}/cache`;
+    const branch = await checkoutWorktree(cacheDir, repo, "linux-6.1.y");
+    const tag = await checkoutWorktree(cacheDir, repo, "v6.1.1");
+    assertEquals(branch, worktreePath(cacheDir, repo, "linux-6.1.y"));
+    assertEquals(await Deno.readTextFile(`${tag}/Makefile`), "VERSION = 6\n");
+    // A second checkout reuses the worktree
+    assertEquals(await checkoutWorktree(cacheDir, repo, "v6.1.1"), tag);
+
+    const entries = await listCache(cacheDir);
+    assertEquals(entries.map(({ ref }) => ref).sort(), [
+      "linux-6.1.y",
+      "v6.1.1",
+    ]);
+    assertEquals(entries[0].head, entries[1].head);
+
+    const removed = await pruneCache(cacheDir, { refs: ["linux-6.1.y"] });
+    assertEquals(
+      removed.map(({ path }) => path),
+      [branch]
+    );
+    assertEquals(
+      (await listCache(cacheDir)).map(({ ref }) => ref),
+      ["v6.1.1"]
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
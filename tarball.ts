@@ -0,0 +1,307 @@
+import { BuildError, fileExists, run, runQuiet, sha256File } from "./exec.ts";
+
+/**
+ * Kernel sources from kernel.org release tarballs (linux-X.Y.Z.tar.xz), for
+ * networks where cloning over git:// is slow or blocked.
+ */
+
+/** kernel.org release directory; mirrors share its layout */
+export const KERNEL_ORG_URL = "https://cdn.kernel.org/pub/linux/kernel";
+
+/**
+ * Key signing kernel.org's sha256sums.asc files (the "Kernel.org checksum
+ * autosigner"), fetched over WKD when the keyring lacks it
+ */
+export const KERNEL_ORG_SUMS_SIGNER = "autosigner@kernel.org";
+
+// Marker written in an extracted tree, holding the tarball's sha256
+const EXTRACTED_MARKER = ".vmlinux-builder-tarball";
+
+/**
+ * Release tarball file name of a version ("6.16.2" -> linux-6.16.2.tar.xz)
+ */
+export function tarballName(version: string): string {
+  return `linux-${version}.tar.xz`;
+}
+
+/**
+ * Directory of a version's tarballs on kernel.org or a mirror
+ */
+export function tarballDirUrl(
+  version: string,
+  mirror: string = KERNEL_ORG_URL
+): string {
+  return `${mirror.replace(/\/+$/, "")}/v${version.split(".")[0]}.x`;
+}
+
+/**
+ * Where the tarball of a version comes from and how it is verified
+ */
+export interface TarballSource {
+  /** Download URL or local path */
+  location: string;
+  /** Expected sha256 of the tarball */
+  sha256?: string | undefined;
+  /** Detached signature (URL or path) of the uncompressed tar */
+  signature?: string | undefined;
+  /** sha256sums.asc listing the expected hash, when neither is given */
+  sumsUrl?: string | undefined;
+}
+
+const isUrl = (location: string) => /^https?:\/\//i.test(location);
+
+/**
+ * Resolve the tarball of a version. `tarball` is a local path, a tarball URL
+ * or a mirror base URL (laid out like kernel.org's /pub/linux/kernel);
+ * without it the tarball comes from kernel.org. Downloads without a sha256
+ * or signature are checked against the directory's sha256sums.asc, trusted
+ * only once its kernel.org signature verifies; local tarballs must come with
+ * one of them.
+ */
+export function resolveTarballSource(
+  version: string,
+  options: {
+    tarball?: string | undefined;
+    sha256?: string | undefined;
+    signature?: string | undefined;
+  }
+): TarballSource {
+  const { tarball, sha256, signature } = options;
+  let location: string;
+  let sumsUrl: string | undefined;
+  if (tarball && !isUrl(tarball)) {
+    location = tarball;
+  } else if (tarball && /\.tar(\.\w+)?$/.test(tarball)) {
+    location = tarball;
+    sumsUrl = `${tarball.slice(0, tarball.lastIndexOf("/"))}/sha256sums.asc`;
+  } else {
+    const dir = tarballDirUrl(version, tarball);
+    location = `${dir}/${tarballName(version)}`;
+    sumsUrl = `${dir}/sha256sums.asc`;
+  }
+
+  // kernel.org signs the tar that xz decompresses to
+  if (signature && !/\.tar\.xz$/.test(location)) {
+    throw new BuildError(
+      `--tarball-signature needs a .tar.xz tarball, got '${location}'; pin other tarballs with --tarball-sha256`
+    );
+  }
+  if (sha256 || signature) return { location, sha256, signature };
+  if (!sumsUrl) {
+    throw new BuildError(
+      `local tarball '${location}' needs --tarball-sha256 or --tarball-signature`
+    );
+  }
+  return { location, sumsUrl };
+}
+
+/**
+ * Find a file's hash in a sha256sums listing (`<hash>  <name>` lines, as in
+ * kernel.org's clearsigned sha256sums.asc)
+ */
+export function findSha256(sums: string, name: string): string | undefined {
+  for (const line of sums.split("\n")) {
+    const [hash, file] = line.trim().split(/\s+/);
+    if (file === name && /^[0-9a-f]{64}$/i.test(hash)) {
+      return hash.toLowerCase();
+    }
+  }
+  return undefined;
+}
+
+async function download(url: string, dest: string): Promise<void> {
+  console.log(`Downloading ${url}`);
+  const resp = await fetch(url);
+  if (!resp.ok || !resp.body) {
+    throw new BuildError(
+      `failed to download ${url} (${resp.status} ${resp.statusText})`
+    );
+  }
+  // Write next to the destination and rename, so an interrupted download is
+  // never mistaken for a complete one.
+  const partial = `${dest}.part`;
+  const file = await Deno.open(partial, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+  await resp.body.pipeTo(file.writable);
+  await Deno.rename(partial, dest);
+}
+
+async function loadText(location: string): Promise<string> {
+  if (!isUrl(location)) return await Deno.readTextFile(location);
+  const resp = await fetch(location);
+  if (!resp.ok) {
+    throw new BuildError(
+      `failed to download ${location} (${resp.status} ${resp.statusText})`
+    );
+  }
+  return await resp.text();
+}
+
+/**
+ * Load a clearsigned sha256sums.asc and return the signed text, once gpg
+ * verifies it was signed by kernel.org's checksum autosigner. Mirrors serve
+ * the same file, so their listings are trusted no more than kernel.org's.
+ */
+async function loadSignedSums(location: string): Promise<string> {
+  const signed = await loadText(location);
+  await runQuiet([
+    "gpg",
+    "--batch",
+    "--auto-key-locate",
+    "local,wkd",
+    "--locate-keys",
+    KERNEL_ORG_SUMS_SIGNER,
+  ]);
+
+  console.log(`Verifying ${location}`);
+  const gpg = new Deno.Command("gpg", {
+    args: ["--batch", "--status-fd", "2", "--decrypt"],
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  // Feed stdin while draining the output: both outgrow a pipe buffer
+  const input = async () => {
+    const writer = gpg.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(signed));
+    await writer.close();
+  };
+  const [, text, status, { code }] = await Promise.all([
+    input(),
+    new Response(gpg.stdout).text(),
+    new Response(gpg.stderr).text(),
+    gpg.status,
+  ]);
+
+  // GOODSIG names the signer's user id; any other key in the keyring (or a
+  // listing that was never signed) is refused
+  const signer = status.match(/^\[GNUPG:\] GOODSIG \S+ (.*)$/m)?.[1];
+  if (code !== 0 || !signer?.includes(`<${KERNEL_ORG_SUMS_SIGNER}>`)) {
+    throw new BuildError(
+      `signature verification failed for ${location}${
+        signer ? ` (signed by ${signer})` : ""
+      }; import kernel.org's key with \`gpg --locate-keys ${KERNEL_ORG_SUMS_SIGNER}\` or pass --tarball-sha256`
+    );
+  }
+  return text;
+}
+
+/**
+ * Download the tarball into `downloadDir` (reusing an earlier download) and
+ * verify it. Local tarballs are verified in place.
+ *
+ * @returns the tarball path and its sha256
+ */
+export async function fetchTarball(
+  source: TarballSource,
+  downloadDir: string
+): Promise<{ path: string; sha256: string }> {
+  let path = source.location;
+  if (isUrl(source.location)) {
+    path = `${downloadDir}/${source.location.split("/").pop()}`;
+    if (!(await fileExists(path))) {
+      await Deno.mkdir(downloadDir, { recursive: true });
+      await download(source.location, path);
+    }
+  } else if (!(await fileExists(path))) {
+    throw new BuildError(`tarball '${path}' not found`);
+  }
+
+  const actual = await sha256File(path);
+  let expected = source.sha256?.toLowerCase();
+  if (!expected && source.sumsUrl) {
+    const name = path.split("/").pop() ?? path;
+    expected = findSha256(await loadSignedSums(source.sumsUrl), name);
+    if (!expected) {
+      throw new BuildError(`${name} is not listed in ${source.sumsUrl}`);
+    }
+  }
+  if (expected && actual !== expected) {
+    throw new BuildError(
+      `sha256 mismatch for ${path}: expected ${expected}, got ${actual}`
+    );
+  }
+  if (source.signature) {
+    await verifySignature(path, source.signature, downloadDir);
+  }
+  console.log(`Verified ${path}`);
+  return { path, sha256: actual };
+}
+
+// kernel.org signs the uncompressed tar: decompress into `gpg --verify`
+async function verifySignature(
+  path: string,
+  signature: string,
+  downloadDir: string
+): Promise<void> {
+  let sigPath = signature;
+  if (isUrl(signature)) {
+    sigPath = `${downloadDir}/${signature.split("/").pop()}`;
+    await Deno.mkdir(downloadDir, { recursive: true });
+    await download(signature, sigPath);
+  }
+
+  console.log(`Verifying ${path} against ${sigPath}`);
+  const decompress = new Deno.Command("xz", {
+    args: ["-dc", path],
+    stdout: "piped",
+  }).spawn();
+  const gpg = new Deno.Command("gpg", {
+    args: ["--verify", sigPath, "-"],
+    stdin: "piped",
+    stdout: "inherit",
+    stderr: "inherit",
+  }).spawn();
+  decompress.stdout.pipeTo(gpg.stdin).catch(() => {
+    // gpg exited early; its status reports the failure
+  });
+  const [{ code: xzCode }, { code }] = await Promise.all([
+    decompress.status,
+    gpg.status,
+  ]);
+  if (xzCode !== 0 || code !== 0) {
+    throw new BuildError(`signature verification failed for ${path}`);
+  }
+}
+
+/**
+ * Make the next `extractTarball` into `destDir` extract afresh, for trees
+ * that no longer match their tarball (e.g. once patched)
+ */
+export async function forgetExtraction(destDir: string): Promise<void> {
+  const marker = `${destDir}/${EXTRACTED_MARKER}`;
+  if (await fileExists(marker)) await Deno.remove(marker);
+}
+
+/**
+ * Extract a tarball into `destDir` (without its top-level directory). A tree
+ * already extracted from the same tarball is kept as is, build objects
+ * included.
+ *
+ * @returns whether the tarball was extracted
+ */
+export async function extractTarball(
+  path: string,
+  sha256: string,
+  destDir: string
+): Promise<boolean> {
+  const marker = `${destDir}/${EXTRACTED_MARKER}`;
+  if (
+    (await fileExists(marker)) &&
+    (await Deno.readTextFile(marker)).trim() === sha256
+  ) {
+    console.log(`Reusing ${destDir} (already extracted from ${path})`);
+    return false;
+  }
+
+  if (await fileExists(destDir)) {
+    await Deno.remove(destDir, { recursive: true });
+  }
+  await Deno.mkdir(destDir, { recursive: true });
+  await run(["tar", "-xf", path, "-C", destDir, "--strip-components=1"]);
+  await Deno.writeTextFile(marker, `${sha256}\n`);
+  return true;
+}
@@ -0,0 +1,179 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  BuildError,
+  extractTarball,
+  fetchTarball,
+  findSha256,
+  resolveTarballSource,
+} from "./build.ts";
+
+Deno.test("resolveTarballSource defaults to kernel.org and its sums", () => {
+  assertEquals(resolveTarballSource("6.16.2", {}), {
+    location:
+      "https://cdn.kernel.org/pub/linux/kernel/v6.x/linux-6.16.2.tar.xz",
+    sumsUrl: "https://cdn.kernel.org/pub/linux/kernel/v6.x/sha256sums.asc",
+  });
+  assertEquals(
+    resolveTarballSource("5.15", { tarball: "https://mirror.example/linux/" }),
+    {
+      location: "https://mirror.example/linux/v5.x/linux-5.15.tar.xz",
+      sumsUrl: "https://mirror.example/linux/v5.x/sha256sums.asc",
+    }
+  );
+  assertEquals(
+    resolveTarballSource("6.1", {
+      tarball: "https://example.com/k/linux-6.1.tar.gz",
+    }).sumsUrl,
+    "https://example.com/k/sha256sums.asc"
+  );
+  assertThrows(
+    () => resolveTarballSource("6.1", { tarball: "/tmp/linux-6.1.tar.xz" }),
+    BuildError,
+    "needs --tarball-sha256 or --tarball-signature"
+  );
+  assertThrows(
+    () =>
+      resolveTarballSource("6.1", {
+        tarball: "/tmp/linux-6.1.tar.gz",
+        signature: "/tmp/linux-6.1.tar.sign",
+      }),
+    BuildError,
+    "--tarball-signature needs a .tar.xz tarball"
+  );
+  assertEquals(
+    resolveTarballSource("6.1", {
+      tarball: "/tmp/linux-6.1.tar.xz",
+      signature: "/tmp/linux-6.1.tar.sign",
+    }).signature,
+    "/tmp/linux-6.1.tar.sign"
+  );
+});
+
+Deno.test("findSha256 reads clearsigned sha256sums listings", () => {
+  const hash = "ab".repeat(32);
+  const sums = [
+    "-----BEGIN PGP SIGNED MESSAGE-----",
+    "Hash: SHA256",
+    "",
+    `${"cd".repeat(32)}  linux-6.16.1.tar.xz`,
+    `${hash.toUpperCase()}  linux-6.16.2.tar.xz`,
+  ].join("\n");
+  assertEquals(findSha256(sums, "linux-6.16.2.tar.xz"), hash);
+  assertEquals(findSha256(sums, "linux-6.16.3.tar.xz"), undefined);
+});
+
+Deno.test("local tarballs are verified and extracted once", async () => {
+  const dir = await Deno.makeTempDir();
+  await Deno.mkdir(`${dir}/linux-6.1/kernel`, { recursive: true });
+  await Deno.writeTextFile(`${dir}/linux-6.1/Makefile`, "VERSION = 6\n");
+  const tar = new Deno.Command("tar", {
+    args: ["-czf", "linux-6.1.tar.gz", "linux-6.1"],
+    cwd: dir,
+  });
+  assertEquals((await tar.output()).code, 0);
+  const location = `${dir}/linux-6.1.tar.gz`;
+
+  await assertRejects(
+    () => fetchTarball({ location, sha256: "0".repeat(64) }, dir),
+    BuildError,
+    "sha256 mismatch"
+  );
+  const { sha256 } = await fetchTarball({ location }, dir);
+  const tarball = await fetchTarball({ location, sha256 }, dir);
+  assertEquals(tarball.path, location);
+
+  const srcDir = `${dir}/src`;
+  assertEquals(await extractTarball(tarball.path, sha256, srcDir), true);
+  assertEquals(await Deno.readTextFile(`${srcDir}/Makefile`), "VERSION = 6\n");
+  await Deno.writeTextFile(`${srcDir}/vmlinux`, "");
+  assertEquals(await extractTarball(tarball.path, sha256, srcDir), false);
+  assertEquals((await Deno.stat(`${srcDir}/vmlinux`)).isFile, true);
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test(
+  "sha256sums.asc is trusted only with kernel.org's signature",
+  async () => {
+    const dir = await Deno.makeTempDir();
+    const home = Deno.env.get("GNUPGHOME");
+    Deno.env.set("GNUPGHOME", `${dir}/gnupg`);
+    const gpg = async (args: string[], stdin = "") => {
+      const child = new Deno.Command("gpg", {
+        args: [
+          "--batch",
+          "--passphrase",
+          "",
+          "--pinentry-mode",
+          "loopback",
+          ...args,
+        ],
+        stdin: "piped",
+        stdout: "piped",
+        stderr: "null",
+      }).spawn();
+      const writer = child.stdin.getWriter();
+      await writer.write(new TextEncoder().encode(stdin));
+      await writer.close();
+      const { code, stdout } = await child.output();
+      assertEquals(code, 0);
+      return new TextDecoder().decode(stdout);
+    };
+    try {
+      await Deno.mkdir(`${dir}/gnupg`, { mode: 0o700 });
+      const location = `${dir}/linux-6.1.tar.xz`;
+      await Deno.writeTextFile(location, "not really a tarball\n");
+      const { sha256: hash } = await fetchTarball({ location }, dir);
+      const autosigner =
+        "Kernel.org checksum autosigner <autosigner@kernel.org>";
+      const mirror = "Mirror <sums@mirror.example>";
+      for (const uid of [autosigner, mirror]) {
+        await gpg(["--quick-gen-key", uid, "ed25519", "sign", "never"]);
+      }
+      const sign = async (uid: string, sums: string, path: string) => {
+        await Deno.writeTextFile(
+          path,
+          await gpg(["--local-user", uid, "--clearsign"], sums)
+        );
+        return path;
+      };
+      const listing = `${hash}  linux-6.1.tar.xz\n`;
+
+      const signed = await sign(autosigner, listing, `${dir}/sha256sums.asc`);
+      assertEquals(
+        (await fetchTarball({ location, sumsUrl: signed }, dir)).sha256,
+        hash
+      );
+
+      // Signed by another key, tampered with, or not signed at all
+      const other = await sign(mirror, listing, `${dir}/mirror.asc`);
+      await assertRejects(
+        () => fetchTarball({ location, sumsUrl: other }, dir),
+        BuildError,
+        "signed by Mirror <sums@mirror.example>"
+      );
+      const tampered = `${dir}/tampered.asc`;
+      await Deno.writeTextFile(
+        tampered,
+        (await Deno.readTextFile(signed)).replace(hash, "0".repeat(64))
+      );
+      await assertRejects(
+        () => fetchTarball({ location, sumsUrl: tampered }, dir),
+        BuildError,
+        "signature verification failed"
+      );
+      const plain = `${dir}/sha256sums`;
+      await Deno.writeTextFile(plain, listing);
+      await assertRejects(
+        () => fetchTarball({ location, sumsUrl: plain }, dir),
+        BuildError,
+        "signature verification failed"
+      );
+    } finally {
+      await new Deno.Command("gpgconf", { args: ["--kill", "all"] }).output();
+      if (home === undefined) Deno.env.delete("GNUPGHOME");
+      else Deno.env.set("GNUPGHOME", home);
+      await Deno.remove(dir, { recursive: true });
+    }
+  }
+);
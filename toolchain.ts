@@ -0,0 +1,262 @@
+import {
+  type ConfigFragment,
+  type ConfigValue,
+  type KernelConfig,
+  KernelConfigParser,
+} from "./config.ts";
+import { capture } from "./exec.ts";
+
+/**
+ * Symbols Kconfig derives from the toolchain of the machine that generated a
+ * config (compiler/assembler/linker identity and versions, feature probes,
+ * build salt). Carried over into another build they are stale at best, so
+ * they are stripped before merging and `make olddefconfig` recomputes them.
+ */
+const TOOLCHAIN_SYMBOL_REGEX = new RegExp(
+  "^CONFIG_(" +
+    [
+      "CC_VERSION_TEXT",
+      "CC_IS_(GCC|CLANG)",
+      "GCC_VERSION",
+      "CLANG_VERSION",
+      "LD_IS_(BFD|LLD)",
+      "LD_VERSION",
+      "LLD_VERSION",
+      "RUSTC_VERSION",
+      "RUSTC_LLVM_VERSION",
+      "RUST_IS_AVAILABLE",
+      "BINDGEN_VERSION_TEXT",
+      "PAHOLE_VERSION",
+      "BUILD_SALT",
+      "CC_CAN_LINK(_STATIC)?",
+      "CC_IMPLICIT_FALLTHROUGH",
+      "(CC|LD|RUSTC|PAHOLE)_HAS_\\w+",
+      "AS_\\w+", // every CONFIG_AS_* is probed from the assembler
+      "TOOLS_SUPPORT_\\w+",
+      "GCC_ASM_GOTO_OUTPUT_\\w+",
+    ].join("|") +
+    ")$"
+);
+
+/**
+ * Whether a symbol is derived from the toolchain rather than chosen
+ */
+export function isToolchainSymbol(key: string): boolean {
+  return TOOLCHAIN_SYMBOL_REGEX.test(key);
+}
+
+/**
+ * A config with its toolchain symbols removed
+ */
+export interface SanitizedConfig {
+  content: string;
+  /** Removed lines, as written */
+  removed: string[];
+  /** Toolchain values the config recorded (e.g. CONFIG_GCC_VERSION) */
+  recorded: Record<string, ConfigValue | undefined>;
+}
+
+/**
+ * Remove toolchain-derived symbols from config content. Every other line,
+ * comments included, is kept as is.
+ */
+export function sanitizeConfig(content: string): SanitizedConfig {
+  const removed: string[] = [];
+  const recorded: Record<string, ConfigValue | undefined> = {};
+  const kept = content.split("\n").filter((line) => {
+    const entry = KernelConfigParser.parseEntry(line);
+    if (!entry || !isToolchainSymbol(entry.key)) return true;
+    removed.push(line.trim());
+    recorded[entry.key] = entry.value;
+    return false;
+  });
+  return { content: kept.join("\n"), removed, recorded };
+}
+
+/**
+ * Toolchain values for the symbols recorded in configs, keyed by symbol
+ */
+export type ToolchainInfo = Partial<
+  Record<
+    | "CONFIG_CC_VERSION_TEXT"
+    | "CONFIG_GCC_VERSION"
+    | "CONFIG_CLANG_VERSION"
+    | "CONFIG_AS_VERSION"
+    | "CONFIG_LD_VERSION"
+    | "CONFIG_LLD_VERSION"
+    | "CONFIG_PAHOLE_VERSION",
+    ConfigValue
+  >
+>;
+
+/**
+ * Raw `--version` outputs of the host tools (missing tools are undefined)
+ */
+export interface ToolchainOutputs {
+  /** `gcc --version` */
+  gcc?: string;
+  /** `gcc -dumpfullversion` */
+  gccVersion?: string;
+  /** `clang --version` (LLVM builds) */
+  clang?: string;
+  /** `ld.lld --version` (LLVM builds) */
+  lld?: string;
+  /** `as --version` */
+  as?: string;
+  /** `ld --version` */
+  ld?: string;
+  /** `pahole --version` */
+  pahole?: string;
+}
+
+// "2.42" -> 24200, "13.3.0" -> 130300, like scripts/*-version.sh
+function versionCode(text: string | undefined): number | undefined {
+  const match = text?.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) return undefined;
+  const [, major, minor, patch = "0"] = match;
+  return Number(major) * 10000 + Number(minor) * 100 + Number(patch);
+}
+
+// Last version-looking word of the first line ("GNU ld (...) 2.42")
+function lastVersion(output: string | undefined): string | undefined {
+  const firstLine = output?.split("\n")[0] ?? "";
+  return firstLine.match(/(\d+\.\d+(?:\.\d+)?)\S*\s*$/)?.[1];
+}
+
+/**
+ * Turn tool outputs into the values Kconfig would record
+ */
+export function parseToolchainOutputs(
+  outputs: ToolchainOutputs
+): ToolchainInfo {
+  const info: ToolchainInfo = {};
+  const ccVersionText = (outputs.clang ?? outputs.gcc)?.split("\n")[0].trim();
+  if (ccVersionText) info.CONFIG_CC_VERSION_TEXT = ccVersionText;
+
+  const gcc = versionCode(outputs.gccVersion ?? lastVersion(outputs.gcc));
+  if (gcc !== undefined) info.CONFIG_GCC_VERSION = gcc;
+
+  // Kconfig records 0 for the compiler and linker that are not in use
+  const clang = versionCode(outputs.clang?.match(/clang version (\S+)/)?.[1]);
+  if (clang !== undefined) {
+    info.CONFIG_CLANG_VERSION = clang;
+    info.CONFIG_GCC_VERSION = 0;
+  }
+
+  const as = versionCode(lastVersion(outputs.as));
+  if (as !== undefined) info.CONFIG_AS_VERSION = as;
+
+  const ld = versionCode(lastVersion(outputs.ld));
+  if (ld !== undefined) info.CONFIG_LD_VERSION = ld;
+
+  const lld = versionCode(outputs.lld?.match(/LLD (\S+)/)?.[1]);
+  if (lld !== undefined) {
+    info.CONFIG_LLD_VERSION = lld;
+    info.CONFIG_LD_VERSION = 0;
+  }
+
+  // pahole reports "v1.25" and Kconfig records 125
+  const pahole = outputs.pahole?.match(/v?(\d+)\.(\d+)/);
+  if (pahole) {
+    info.CONFIG_PAHOLE_VERSION = Number(pahole[1]) * 100 + Number(pahole[2]);
+  }
+  return info;
+}
+
+/**
+ * Query the host's gcc, as, ld and pahole, or clang and ld.lld for LLVM
+ * builds
+ *
+ * @param prefix cross toolchain prefix (e.g. aarch64-linux-gnu-) of gcc, as
+ * and ld
+ * @param llvmSuffix version suffix of the LLVM tools (e.g. "-18", or "" for
+ * the unversioned ones); undefined for GCC builds
+ */
+export async function detectHostToolchain(
+  prefix = "",
+  llvmSuffix?: string
+): Promise<ToolchainInfo> {
+  const tryCapture = async (cmd: string[]) => {
+    try {
+      return (await capture(cmd)) || undefined;
+    } catch {
+      // Tool not installed
+      return undefined;
+    }
+  };
+  if (llvmSuffix !== undefined) {
+    return parseToolchainOutputs({
+      clang: await tryCapture([`clang${llvmSuffix}`, "--version"]),
+      lld: await tryCapture([`ld.lld${llvmSuffix}`, "--version"]),
+      pahole: await tryCapture(["pahole", "--version"]),
+    });
+  }
+  return parseToolchainOutputs({
+    gcc: await tryCapture([`${prefix}gcc`, "--version"]),
+    gccVersion: await tryCapture([`${prefix}gcc`, "-dumpfullversion"]),
+    as: await tryCapture([`${prefix}as`, "--version"]),
+    ld: await tryCapture([`${prefix}ld`, "--version"]),
+    pahole: await tryCapture(["pahole", "--version"]),
+  });
+}
+
+/**
+ * A toolchain value recorded in a config that the host does not match
+ */
+export interface ToolchainMismatch {
+  /** Config the value was recorded in */
+  source: string;
+  key: string;
+  recorded: ConfigValue | undefined;
+  host: ConfigValue;
+}
+
+/**
+ * Compare the toolchain values recorded in a config with the host's. Symbols
+ * the host could not report are skipped.
+ */
+export function compareToolchain(
+  source: string,
+  recorded: KernelConfig["flatConfig"],
+  host: ToolchainInfo
+): ToolchainMismatch[] {
+  return Object.entries(host).flatMap(([key, value]) =>
+    key in recorded && recorded[key] !== value
+      ? [{ source, key, recorded: recorded[key], host: value }]
+      : []
+  );
+}
+
+/**
+ * Strip toolchain symbols from every fragment and compare what each one
+ * recorded with the host toolchain
+ */
+export function sanitizeFragments(
+  fragments: ConfigFragment[],
+  host: ToolchainInfo
+): { fragments: ConfigFragment[]; mismatches: ToolchainMismatch[] } {
+  const mismatches: ToolchainMismatch[] = [];
+  const sanitized = fragments.map(({ source, content }) => {
+    const result = sanitizeConfig(content);
+    mismatches.push(...compareToolchain(source, result.recorded, host));
+    return { source, content: result.content };
+  });
+  return { fragments: sanitized, mismatches };
+}
+
+/**
+ * One line per mismatch: `source: KEY recorded -> host`
+ */
+export function formatToolchainMismatches(
+  mismatches: ToolchainMismatch[]
+): string {
+  return [
+    "Host toolchain differs from the one recorded in the config:",
+    ...mismatches.map(
+      ({ source, key, recorded, host }) =>
+        `  ${source}: ${key} ${JSON.stringify(recorded)} -> ${JSON.stringify(
+          host
+        )}`
+    ),
+  ].join("\n");
+}
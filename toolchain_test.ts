@@ -0,0 +1,125 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  compareToolchain,
+  formatToolchainMismatches,
+  isToolchainSymbol,
+  KernelConfigParser,
+  parseToolchainOutputs,
+  sanitizeConfig,
+  sanitizeFragments,
+} from "./build.ts";
+
+const config = `#
+# Linux/x86 6.6.100 Kernel Configuration
+#
+CONFIG_CC_VERSION_TEXT="gcc (Ubuntu 13.3.0-6ubuntu2~24.04) 13.3.0"
+CONFIG_CC_IS_GCC=y
+CONFIG_GCC_VERSION=130300
+CONFIG_AS_VERSION=24200
+CONFIG_LD_VERSION=24200
+CONFIG_CC_HAS_ASM_INLINE=y
+CONFIG_AS_AVX512=y
+CONFIG_PAHOLE_VERSION=125
+CONFIG_BUILD_SALT=""
+CONFIG_CC_OPTIMIZE_FOR_PERFORMANCE=y
+CONFIG_SMP=y
+# CONFIG_LD_IS_LLD is not set
+`;
+
+Deno.test("isToolchainSymbol matches derived symbols only", () => {
+  assertEquals(isToolchainSymbol("CONFIG_GCC_VERSION"), true);
+  assertEquals(isToolchainSymbol("CONFIG_CC_HAS_ASM_INLINE"), true);
+  assertEquals(isToolchainSymbol("CONFIG_AS_AVX512"), true);
+  assertEquals(isToolchainSymbol("CONFIG_CC_OPTIMIZE_FOR_PERFORMANCE"), false);
+  assertEquals(isToolchainSymbol("CONFIG_GCC_PLUGINS"), false);
+  assertEquals(isToolchainSymbol("CONFIG_SMP"), false);
+});
+
+Deno.test("sanitizeConfig strips toolchain lines and keeps the rest", () => {
+  const { content, removed, recorded } = sanitizeConfig(config);
+  assertEquals(
+    content,
+    [
+      "#",
+      "# Linux/x86 6.6.100 Kernel Configuration",
+      "#",
+      "CONFIG_CC_OPTIMIZE_FOR_PERFORMANCE=y",
+      "CONFIG_SMP=y",
+      "",
+    ].join("\n")
+  );
+  assertEquals(removed.length, 10);
+  assertEquals(recorded.CONFIG_GCC_VERSION, 130300);
+  assertEquals(recorded.CONFIG_LD_IS_LLD, undefined);
+  assertEquals(
+    KernelConfigParser.parse(content).buildInfo?.compiler,
+    undefined
+  );
+});
+
+Deno.test("parseToolchainOutputs computes Kconfig version codes", () => {
+  assertEquals(
+    parseToolchainOutputs({
+      gcc: "gcc (GCC) 14.2.1 20240912\nCopyright (C) 2024 Free Software Foundation, Inc.",
+      gccVersion: "14.2.1",
+      as: "GNU assembler (GNU Binutils) 2.43.1\nCopyright (C) 2024",
+      ld: "GNU ld (GNU Binutils) 2.43.1",
+      pahole: "v1.27",
+    }),
+    {
+      CONFIG_CC_VERSION_TEXT: "gcc (GCC) 14.2.1 20240912",
+      CONFIG_GCC_VERSION: 140201,
+      CONFIG_AS_VERSION: 24301,
+      CONFIG_LD_VERSION: 24301,
+      CONFIG_PAHOLE_VERSION: 127,
+    }
+  );
+  assertEquals(
+    parseToolchainOutputs({
+      clang:
+        "Ubuntu clang version 18.1.3 (1ubuntu1)\nTarget: x86_64-pc-linux-gnu",
+      lld: "Ubuntu LLD 18.1.3 (compatible with GNU linkers)",
+    }),
+    {
+      CONFIG_CC_VERSION_TEXT: "Ubuntu clang version 18.1.3 (1ubuntu1)",
+      CONFIG_GCC_VERSION: 0,
+      CONFIG_CLANG_VERSION: 180103,
+      CONFIG_LD_VERSION: 0,
+      CONFIG_LLD_VERSION: 180103,
+    }
+  );
+  assertEquals(parseToolchainOutputs({}), {});
+});
+
+Deno.test(
+  "compareToolchain reports recorded values the host differs from",
+  () => {
+    const host = {
+      CONFIG_GCC_VERSION: 140201,
+      CONFIG_AS_VERSION: 24200,
+      CONFIG_CLANG_VERSION: 0,
+    };
+    const { recorded } = sanitizeConfig(config);
+    const mismatches = compareToolchain("default-config.ts", recorded, host);
+    assertEquals(mismatches, [
+      {
+        source: "default-config.ts",
+        key: "CONFIG_GCC_VERSION",
+        recorded: 130300,
+        host: 140201,
+      },
+    ]);
+    assertStringIncludes(
+      formatToolchainMismatches(mismatches),
+      "default-config.ts: CONFIG_GCC_VERSION 130300 -> 140201"
+    );
+
+    const { fragments } = sanitizeFragments(
+      [{ source: "net.config", content: "CONFIG_NET=y\nCONFIG_AS_VERSION=1" }],
+      host
+    );
+    assertEquals(fragments, [
+      { source: "net.config", content: "CONFIG_NET=y" },
+    ]);
+  }
+);
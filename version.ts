@@ -0,0 +1,143 @@
+import { BuildError } from "./exec.ts";
+
+/**
+ * Kernel version strings as they appear on the command line, in tags and in
+ * config headers: releases (6.16.2, v6.16), maintenance branches (6.16.y),
+ * release candidates (6.17-rc3, 6.17.0-rc3) and vendor suffixes
+ * (6.6.98-sun60iw2).
+ */
+const VERSION_REGEX =
+  /^v?(\d+)\.(\d+)(?:\.(y|\d+))?(?:-rc(\d+))?(?:[-+]([A-Za-z0-9._+-]+))?$/;
+
+/**
+ * A parsed kernel version
+ *
+ * ```ts
+ * const built = KernelVersion.parse("6.6.98-sun60iw2");
+ * built.series; // "6.6"
+ * built.compare(KernelVersion.parse("6.6.100")) < 0; // true
+ * KernelVersion.parse("6.12-rc3").ref(); // "v6.12-rc3"
+ * ```
+ */
+export class KernelVersion {
+  private constructor(
+    readonly major: number,
+    readonly minor: number,
+    /** Patch level; undefined for X.Y releases and X.Y.y branches */
+    readonly patch: number | undefined,
+    /** Release candidate number (-rcN) */
+    readonly rc: number | undefined,
+    /** Whether this names a maintenance branch (X.Y.y) */
+    readonly isBranch: boolean,
+    /** Vendor/local version suffix, without its leading dash */
+    readonly suffix: string | undefined
+  ) {}
+
+  /**
+   * Parse a version, with or without its leading "v"
+   *
+   * @throws BuildError when the text is not a kernel version
+   */
+  static parse(text: string): KernelVersion {
+    const version = KernelVersion.tryParse(text);
+    if (!version) {
+      throw new BuildError(`invalid kernel version '${text}'`);
+    }
+    return version;
+  }
+
+  /**
+   * Parse a version, or undefined when the text is not a kernel version
+   */
+  static tryParse(text: string): KernelVersion | undefined {
+    const match = text.trim().match(VERSION_REGEX);
+    if (!match) return undefined;
+    const [, major, minor, patch, rc, suffix] = match;
+    const isBranch = patch === "y";
+    // Branches have no release candidates of their own
+    if (isBranch && rc !== undefined) return undefined;
+    return new KernelVersion(
+      Number(major),
+      Number(minor),
+      patch === undefined || isBranch ? undefined : Number(patch),
+      rc === undefined ? undefined : Number(rc),
+      isBranch,
+      suffix
+    );
+  }
+
+  /**
+   * Order two versions (for `Array.prototype.sort`). Release candidates come
+   * before their release, a branch after every release of its series, and
+   * vendor suffixes are ignored.
+   */
+  static compare(a: KernelVersion, b: KernelVersion): number {
+    return a.compare(b);
+  }
+
+  /** Whether this is a release candidate */
+  get isRc(): boolean {
+    return this.rc !== undefined;
+  }
+
+  /** Major.minor series ("6.16") */
+  get series(): string {
+    return `${this.major}.${this.minor}`;
+  }
+
+  /**
+   * Negative, zero or positive as this version is older than, the same as or
+   * newer than `other`
+   */
+  compare(other: KernelVersion): number {
+    // A branch is newer than every release of its series, and a release
+    // than all of its release candidates
+    const key = (v: KernelVersion) => [
+      v.major,
+      v.minor,
+      v.isBranch ? Infinity : v.patch ?? 0,
+      v.rc ?? Infinity,
+    ];
+    const [x, y] = [key(this), key(other)];
+    for (let i = 0; i < x.length; i++) {
+      if (x[i] !== y[i]) return x[i] < y[i] ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /** Whether both versions belong to the same major.minor series */
+  sameSeries(other: KernelVersion): boolean {
+    return this.major === other.major && this.minor === other.minor;
+  }
+
+  /**
+   * The version without a leading "v" ("6.16.2", "6.16.y", "6.17-rc3",
+   * "6.6.98-sun60iw2")
+   */
+  format(): string {
+    let text = this.series;
+    if (this.isBranch) text += ".y";
+    else if (this.patch !== undefined) text += `.${this.patch}`;
+    if (this.rc !== undefined) text += `-rc${this.rc}`;
+    if (this.suffix !== undefined) text += `-${this.suffix}`;
+    return text;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * The linux-stable ref of this version: the linux-X.Y.y branch of a
+   * maintenance branch, else the vX.Y[.Z][-rcN] tag. Vendor suffixes have no
+   * upstream ref and are dropped.
+   */
+  ref(): string {
+    if (this.isBranch) return `linux-${this.series}.y`;
+    // `make kernelversion` says 6.17.0 where the tag is v6.17
+    let tag = `v${this.series}`;
+    if (this.patch) tag += `.${this.patch}`;
+    if (this.rc !== undefined) tag += `-rc${this.rc}`;
+    return tag;
+  }
+}
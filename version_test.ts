@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { BuildError, KernelVersion } from "./build.ts";
+
+Deno.test("KernelVersion parses releases, branches, rcs and suffixes", () => {
+  const release = KernelVersion.parse("v6.6.98-sun60iw2");
+  assertEquals(
+    [release.major, release.minor, release.patch, release.suffix],
+    [6, 6, 98, "sun60iw2"]
+  );
+  assertEquals(release.format(), "6.6.98-sun60iw2");
+  assertEquals(KernelVersion.parse("6.12-rc3").rc, 3);
+  assertEquals(KernelVersion.parse("6.16.y").isBranch, true);
+  assertEquals(KernelVersion.tryParse("6.x"), undefined);
+  assertEquals(KernelVersion.tryParse("6.1.y-rc1"), undefined);
+  assertThrows(() => KernelVersion.parse("latest"), BuildError);
+});
+
+Deno.test("KernelVersion maps versions to linux-stable refs", () => {
+  const refs = ["6.16.y", "v6.16.2", "6.16", "6.17-rc3", "6.17.0-rc3"].map(
+    (v) => KernelVersion.parse(v).ref()
+  );
+  assertEquals(refs, [
+    "linux-6.16.y",
+    "v6.16.2",
+    "v6.16",
+    "v6.17-rc3",
+    "v6.17-rc3",
+  ]);
+});
+
+Deno.test("KernelVersion orders rcs, releases and branches", () => {
+  const sorted = ["6.1.y", "6.10", "6.1.12", "6.1", "6.1-rc7", "6.1.2"]
+    .map((v) => KernelVersion.parse(v))
+    .sort(KernelVersion.compare)
+    .map((v) => v.format());
+  assertEquals(sorted, ["6.1-rc7", "6.1", "6.1.2", "6.1.12", "6.1.y", "6.10"]);
+  const header = KernelVersion.parse("6.6.98-sun60iw2");
+  assertEquals(header.compare(KernelVersion.parse("6.6.98")), 0);
+  assertEquals(header.sameSeries(KernelVersion.parse("6.6.100")), true);
+});